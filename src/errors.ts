@@ -5,8 +5,12 @@ export class ConcurrencyError extends Error {
     readonly expectedVersion: bigint,
     readonly actualVersion: bigint,
     message?: string,
+    /** Index of the failed condition when append() was given several. */
+    readonly conditionIndex?: number,
   ) {
-    super(message ?? `Concurrency conflict: expected version ${expectedVersion}, got ${actualVersion}`);
+    super(message ?? (conditionIndex === undefined
+      ? `Concurrency conflict: expected version ${expectedVersion}, got ${actualVersion}`
+      : `Concurrency conflict in condition ${conditionIndex}: expected version ${expectedVersion}, got ${actualVersion}`));
     // Restore prototype chain for instanceof checks
     Object.setPrototypeOf(this, new.target.prototype);
   }
@@ -23,3 +27,15 @@ export class EventStoreError extends Error {
     Object.setPrototypeOf(this, new.target.prototype);
   }
 }
+
+export class InvalidQueryError extends Error {
+  override readonly name = 'InvalidQueryError';
+
+  constructor(
+    readonly path: string,
+    reason: string,
+  ) {
+    super(`Invalid query at ${path}: ${reason}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
@@ -1,13 +1,23 @@
 export { query } from './query/query-object.js';
+export type { QueryEntryPoint } from './query/query-object.js';
 export type { QueryDefinition } from './query/types.js';
+export { serializeQuery, parseQuery } from './query/serialization.js';
+export { matches } from './query/matcher.js';
+export type { SerializedQuery } from './query/serialization.js';
 export type {
   NewEvent,
   StoredEvent,
+  TypedStoredEvent,
+  QueryEvent,
   LoadResult,
+  LoadManyResult,
   AppendOptions,
+  AppendCondition,
   StreamOptions,
+  ExplainOptions,
+  ExplainResult,
   EventStore,
 } from './types.js';
 export { PostgresEventStore } from './store/event-store.js';
 export type { EventStoreConfig } from './store/event-store.js';
-export { ConcurrencyError, EventStoreError } from './errors.js';
+export { ConcurrencyError, EventStoreError, InvalidQueryError } from './errors.js';
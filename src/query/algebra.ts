@@ -0,0 +1,195 @@
+import type { Clause, FilterNode, QueryBounds, QueryDefinition } from './types.js';
+
+/**
+ * Set of event types a clause selects: an explicit list (possibly empty) or
+ * every type starting with a prefix.
+ */
+type TypeSet = { prefix: string } | { types: string[] };
+
+/** Returned when a combination can match nothing. */
+const EMPTY_CLAUSE: Clause = { type: [], filter: null };
+
+function typeSetOf(clause: Clause): TypeSet {
+  if (clause.prefix === true) return { prefix: String(clause.type) };
+  return { types: typeof clause.type === 'string' ? [clause.type] : [...new Set(clause.type)].sort() };
+}
+
+function clauseOf(set: TypeSet, filter: FilterNode | null): Clause {
+  if ('prefix' in set) return { type: set.prefix, prefix: true, filter };
+  return { type: set.types.length === 1 ? (set.types[0] as string) : set.types, filter };
+}
+
+function isEmpty(set: TypeSet): boolean {
+  return 'types' in set && set.types.length === 0;
+}
+
+function intersectTypes(a: TypeSet, b: TypeSet): TypeSet {
+  if ('types' in a) {
+    return { types: a.types.filter((t) => ('types' in b ? b.types.includes(t) : t.startsWith(b.prefix))) };
+  }
+  if ('types' in b) return intersectTypes(b, a);
+  if (a.prefix.startsWith(b.prefix)) return a;
+  if (b.prefix.startsWith(a.prefix)) return b;
+  return { types: [] };
+}
+
+/** Types of `a` that are not in `b`; throws when a prefix would need a hole cut into it. */
+function subtractTypes(a: TypeSet, b: TypeSet): TypeSet {
+  if ('types' in a) {
+    const inB = (t: string): boolean => ('types' in b ? b.types.includes(t) : t.startsWith(b.prefix));
+    return { types: a.types.filter((t) => !inB(t)) };
+  }
+  if ('prefix' in b && a.prefix.startsWith(b.prefix)) return { types: [] };
+  if (isEmpty(intersectTypes(a, b))) return a;
+  const removed = 'prefix' in b ? `types starting with '${b.prefix}'` : b.types.join(', ');
+  throw new Error(`except() cannot remove ${removed} from the types starting with '${a.prefix}'`);
+}
+
+// ---------------------------------------------------------------------------
+// Filters
+// ---------------------------------------------------------------------------
+
+const nodeKey = (node: FilterNode): string => JSON.stringify(node);
+
+function uniqueSorted(nodes: readonly FilterNode[]): FilterNode[] {
+  return [...new Map(nodes.map((n) => [nodeKey(n), n])).entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, n]) => n);
+}
+
+/**
+ * AND/OR of `nodes` with duplicates dropped. A single distinct node is returned
+ * as is; otherwise nested nodes of the same kind are flattened and the children
+ * sorted, so the result does not depend on the order of the inputs.
+ */
+function combine(kind: 'and' | 'or', nodes: readonly FilterNode[]): FilterNode {
+  const distinct = uniqueSorted(nodes);
+  if (distinct.length === 1) return distinct[0] as FilterNode;
+  return { kind, filters: uniqueSorted(distinct.flatMap((n) => (n.kind === kind ? n.filters : [n]))) };
+}
+
+/** Conjunction where null means "no filter". */
+function and(a: FilterNode | null, b: FilterNode | null): FilterNode | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return combine('and', [a, b]);
+}
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+/**
+ * Drops clauses that match nothing and merges clauses over the same types
+ * into one, OR-ing their filters (an unfiltered clause absorbs the rest).
+ * The result is sorted so it does not depend on the order of the inputs.
+ */
+export function normalizeClauses(clauses: readonly Clause[]): Clause[] {
+  const byTypes = new Map<string, { set: TypeSet; filters: FilterNode[] | null }>();
+  for (const clause of clauses) {
+    const set = typeSetOf(clause);
+    if (isEmpty(set)) continue;
+    const key = JSON.stringify(set);
+    const entry = byTypes.get(key) ?? { set, filters: [] };
+    entry.filters = entry.filters === null || clause.filter === null ? null : [...entry.filters, clause.filter];
+    byTypes.set(key, entry);
+  }
+  if (byTypes.size === 0) return [EMPTY_CLAUSE];
+
+  return [...byTypes.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, { set, filters }]) => clauseOf(set, filters === null ? null : combine('or', filters)));
+}
+
+// ---------------------------------------------------------------------------
+// Bounds
+// ---------------------------------------------------------------------------
+
+function boundsKey(bounds: QueryBounds | undefined): string {
+  return JSON.stringify({
+    afterPosition: bounds?.afterPosition?.toString(),
+    untilPosition: bounds?.untilPosition?.toString(),
+    occurredFrom: bounds?.occurredFrom?.toISOString(),
+    occurredTo: bounds?.occurredTo?.toISOString(),
+  });
+}
+
+function hasBounds(bounds: QueryBounds | undefined): bounds is QueryBounds {
+  return bounds !== undefined && Object.values(bounds).some((v) => v !== undefined);
+}
+
+const maxOf = <T extends bigint | Date>(a: T | undefined, b: T | undefined): T | undefined =>
+  a === undefined ? b : b === undefined ? a : a >= b ? a : b;
+const minOf = <T extends bigint | Date>(a: T | undefined, b: T | undefined): T | undefined =>
+  a === undefined ? b : b === undefined ? a : a <= b ? a : b;
+
+function intersectBounds(a: QueryBounds | undefined, b: QueryBounds | undefined): QueryBounds | undefined {
+  if (!hasBounds(a)) return hasBounds(b) ? b : undefined;
+  if (!hasBounds(b)) return a;
+  const merged: QueryBounds = {};
+  const after = maxOf(a.afterPosition, b.afterPosition);
+  const until = minOf(a.untilPosition, b.untilPosition);
+  const from = maxOf(a.occurredFrom, b.occurredFrom);
+  const to = minOf(a.occurredTo, b.occurredTo);
+  if (after !== undefined) merged.afterPosition = after;
+  if (until !== undefined) merged.untilPosition = until;
+  if (from !== undefined) merged.occurredFrom = from;
+  if (to !== undefined) merged.occurredTo = to;
+  return merged;
+}
+
+/** True when every event within `inner` is also within `outer`. */
+function boundsWithin(inner: QueryBounds | undefined, outer: QueryBounds | undefined): boolean {
+  return boundsKey(intersectBounds(inner, outer)) === boundsKey(inner);
+}
+
+function result<TEvent>(clauses: readonly Clause[], bounds: QueryBounds | undefined): QueryDefinition<TEvent> {
+  const normalized = normalizeClauses(clauses);
+  return hasBounds(bounds) ? { _clauses: normalized, _bounds: bounds } : { _clauses: normalized };
+}
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+/**
+ * Events matched by `a` or `b`. Both queries must have the same bounds, since
+ * bounds apply to the query as a whole.
+ */
+export function unionQueries<TEvent>(a: QueryDefinition, b: QueryDefinition): QueryDefinition<TEvent> {
+  if (boundsKey(a._bounds) !== boundsKey(b._bounds)) {
+    throw new Error('union() requires both queries to have the same bounds');
+  }
+  return result([...a._clauses, ...b._clauses], a._bounds);
+}
+
+/** Events matched by both `a` and `b`: pairwise clause intersections within both bounds. */
+export function intersectQueries<TEvent>(a: QueryDefinition, b: QueryDefinition): QueryDefinition<TEvent> {
+  const clauses = a._clauses.flatMap((ca) =>
+    b._clauses.map((cb) => clauseOf(intersectTypes(typeSetOf(ca), typeSetOf(cb)), and(ca.filter, cb.filter))),
+  );
+  return result(clauses, intersectBounds(a._bounds, b._bounds));
+}
+
+/**
+ * Events matched by `a` but not by `b`. Each clause of `b` removes its types
+ * from `a` or, when it has a filter, AND-s its negation into the overlapping part.
+ * `b` must not be bounded more tightly than `a`.
+ */
+export function exceptQueries<TEvent>(a: QueryDefinition, b: QueryDefinition): QueryDefinition<TEvent> {
+  if (!boundsWithin(a._bounds, b._bounds)) {
+    throw new Error('except() cannot subtract a query whose bounds are narrower than the first query\'s');
+  }
+  let clauses: Clause[] = [...a._clauses];
+  for (const cb of b._clauses) {
+    const removed = typeSetOf(cb);
+    clauses = clauses.flatMap((ca) => {
+      const own = typeSetOf(ca);
+      const overlap = intersectTypes(own, removed);
+      if (isEmpty(overlap)) return [ca];
+      const kept = [clauseOf(subtractTypes(own, removed), ca.filter)];
+      return cb.filter === null ? kept : [...kept, clauseOf(overlap, and(ca.filter, { kind: 'not', filter: cb.filter }))];
+    });
+  }
+  return result(clauses, a._bounds);
+}
@@ -1,15 +1,98 @@
-import type { Clause, FilterNode, QueryDefinition } from './types.js';
+import type { TypedStoredEvent } from '../types.js';
+import type {
+  AnyEvents,
+  Clause,
+  EventType,
+  FilterNode,
+  FilterSource,
+  PayloadKey,
+  PayloadOf,
+  PayloadPath,
+  PayloadValue,
+  PrefixedEventType,
+  SelectedType,
+  QueryBounds,
+  QueryDefinition,
+  RangeOperator,
+  RangeValueType,
+} from './types.js';
+
+/** Values accepted by the range operators on ValueSetter. */
+export type RangeValue = number | string | Date;
+
+// Typed DSL: array elements for contains(), operands for the range operators.
+// An untyped value (unknown) accepts anything, as before.
+type ElementOf<V> = unknown extends V ? unknown : V extends readonly (infer X)[] ? X : never;
+type RangeOperand<V> = unknown extends V ? RangeValue : V extends number ? number : V extends string ? string | Date : never;
+
+// Path-segment arrays are only accepted when the query is untyped
+type KeySegments<E> = string extends EventType<E> ? readonly string[] : never;
+
+/**
+ * Normalises a key argument into a PayloadKey. Dotted strings are split into
+ * nested path segments; an array is taken literally, so `['a.b']` addresses a
+ * top-level key that contains a dot. Single-segment paths collapse to a string.
+ */
+function _payloadKey(k: string | readonly string[]): PayloadKey {
+  const segments = typeof k === 'string' ? k.split('.') : [...k];
+  if (segments.length === 0 || segments.some((segment) => segment === '')) {
+    throw new Error(`Invalid payload key ${JSON.stringify(k)}: path segments must be non-empty`);
+  }
+  return segments.length === 1 ? (segments[0] as string) : segments;
+}
+
+/**
+ * Normalises a range operand into the JSON-safe form stored on a FilterNode.
+ * Dates become ISO-8601 strings tagged with valueType 'date'.
+ */
+function _rangeOperand(value: RangeValue): { valueType: RangeValueType; value: number | string } {
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new Error('Range operand must be a valid Date');
+    }
+    return { valueType: 'date', value: value.toISOString() };
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Range operand must be a finite number, got ${value}`);
+    }
+    return { valueType: 'number', value };
+  }
+  if (typeof value === 'string') {
+    return { valueType: 'string', value };
+  }
+  throw new Error(`Range operand must be a number, string or Date, got ${typeof value}`);
+}
+
+/**
+ * An undefined value would bind as an empty containment document and match
+ * every event of the type, so equals(), notEquals() and in() reject it.
+ */
+function _definedValue<T>(method: string, value: T): T {
+  if (value === undefined) {
+    throw new Error(`${method}() requires a defined value; use exists() or missing() to test for the key`);
+  }
+  return value;
+}
+
+/**
+ * FilterNodes produced by group(). They are treated as opaque by _applyFilter
+ * so a later .and/.or wraps them instead of flattening into them, keeping the
+ * tree exactly as written.
+ */
+const _groupNodes = new WeakSet<FilterNode>();
 
 /**
  * Applies a new FilterNode to the last clause in the clauses array,
  * using the specified combinator to determine how it combines with
  * any existing filter on that clause.
  */
-function _applyFilter(
-  clauses: readonly Clause[],
+function _applyFilter<E extends object, L extends EventType<E>, C extends EventType<E>>(
+  base: ClauseBuilder<E, L, C>,
   combinator: 'where' | 'and' | 'or',
   newNode: FilterNode,
-): ClauseBuilder {
+): ClauseBuilder<E, L, C> {
+  const clauses = base._clauses;
   if (clauses.length === 0) {
     throw new Error('_applyFilter called with empty clauses array');
   }
@@ -17,106 +100,341 @@ function _applyFilter(
   const last = clauses[clauses.length - 1] as Clause;
   const rest = clauses.slice(0, -1);
 
-  const replaceFilter = (f: FilterNode): Clause => ({ type: last.type, filter: f });
+  const replaceFilter = (f: FilterNode): Clause => ({ ...last, filter: f });
+  const withLast = (clause: Clause): ClauseBuilder<E, L, C> => new ClauseBuilder([...rest, clause], base._bounds);
 
   if (combinator === 'where') {
-    return new ClauseBuilder([...rest, replaceFilter(newNode)]);
+    return withLast(replaceFilter(newNode));
   }
 
   if (combinator === 'and') {
     if (last.filter === null) {
       // No existing filter — treat as first filter (same as where)
-      return new ClauseBuilder([...rest, replaceFilter(newNode)]);
+      return withLast(replaceFilter(newNode));
     }
     const existing = last.filter;
-    if (existing.kind === 'and') {
+    if (existing.kind === 'and' && !_groupNodes.has(existing)) {
       // Flat accumulation: append to existing and-node
       const merged: FilterNode = { kind: 'and', filters: [...existing.filters, newNode] };
-      return new ClauseBuilder([...rest, replaceFilter(merged)]);
+      return withLast(replaceFilter(merged));
     }
     // Wrap both into a new and-node
     const merged: FilterNode = { kind: 'and', filters: [existing, newNode] };
-    return new ClauseBuilder([...rest, replaceFilter(merged)]);
+    return withLast(replaceFilter(merged));
   }
 
   // combinator === 'or'
   if (last.filter === null) {
     // No existing filter — treat as first filter (same as where)
-    return new ClauseBuilder([...rest, replaceFilter(newNode)]);
+    return withLast(replaceFilter(newNode));
   }
   const existing = last.filter;
-  if (existing.kind === 'or') {
+  if (existing.kind === 'or' && !_groupNodes.has(existing)) {
     // Flat accumulation: append to existing or-node
     const merged: FilterNode = { kind: 'or', filters: [...existing.filters, newNode] };
-    return new ClauseBuilder([...rest, replaceFilter(merged)]);
+    return withLast(replaceFilter(merged));
   }
   // Wrap both into a new or-node
   const merged: FilterNode = { kind: 'or', filters: [existing, newNode] };
-  return new ClauseBuilder([...rest, replaceFilter(merged)]);
+  return withLast(replaceFilter(merged));
 }
 
 /**
  * Fluent immutable query builder. Implements QueryDefinition so it can
  * be passed directly to load() and append(). Every operation returns a
  * new ClauseBuilder — existing instances are never mutated.
+ *
+ * Type parameters are compile-time only: `E` maps event types to payloads,
+ * `L` is every type the query can load, `C` the types of the last clause
+ * (whose payload keys key() accepts). Untyped, all of them are plain strings.
  */
-export class ClauseBuilder implements QueryDefinition {
-  constructor(readonly _clauses: readonly Clause[]) {}
+export class ClauseBuilder<
+  E extends object = AnyEvents,
+  L extends EventType<E> = EventType<E>,
+  C extends EventType<E> = L,
+> implements QueryDefinition<TypedStoredEvent<E, L>> {
+  declare readonly _event?: TypedStoredEvent<E, L>;
+
+  constructor(
+    readonly _clauses: readonly Clause[],
+    readonly _bounds?: QueryBounds,
+  ) {}
 
   /** Start a new filter expression on the last clause. */
-  get where(): KeySelector {
-    return new KeySelector(this._clauses, 'where');
+  get where(): KeySelector<E, L, C> {
+    return new KeySelector(this, 'where');
   }
 
   /** Combine with the existing filter using AND. */
-  get and(): KeySelector {
-    return new KeySelector(this._clauses, 'and');
+  get and(): KeySelector<E, L, C> {
+    return new KeySelector(this, 'and');
   }
 
   /** Combine with the existing filter using OR. */
-  get or(): KeySelector {
-    return new KeySelector(this._clauses, 'or');
+  get or(): KeySelector<E, L, C> {
+    return new KeySelector(this, 'or');
   }
 
   /** Append a new clause for the given event type. */
-  eventsOfType(type: string): ClauseBuilder {
-    return new ClauseBuilder([...this._clauses, { type, filter: null }]);
+  eventsOfType<T extends EventType<E>>(type: T): ClauseBuilder<E, L | SelectedType<E, T>, SelectedType<E, T>> {
+    return new ClauseBuilder([...this._clauses, { type, filter: null }], this._bounds);
   }
 
   /** Alias for eventsOfType — matches all events of the given type. */
-  allEventsOfType(type: string): ClauseBuilder {
+  allEventsOfType<T extends EventType<E>>(type: T): ClauseBuilder<E, L | SelectedType<E, T>, SelectedType<E, T>> {
     return this.eventsOfType(type);
   }
+
+  /**
+   * Append a single clause covering several event types. A following
+   * `.where` filter applies to all of them.
+   */
+  eventsOfTypes<T extends EventType<E>>(types: readonly T[]): ClauseBuilder<E, L | SelectedType<E, T>, SelectedType<E, T>> {
+    if (types.length === 0) {
+      throw new Error('eventsOfTypes() requires at least one event type');
+    }
+    const type = types.length === 1 ? (types[0] as string) : [...types];
+    return new ClauseBuilder([...this._clauses, { type, filter: null }], this._bounds);
+  }
+
+  /** Append a clause matching every event type that starts with `prefix`. */
+  eventsOfTypePrefix<P extends string>(
+    prefix: P,
+  ): ClauseBuilder<E, L | PrefixedEventType<E, P>, PrefixedEventType<E, P>> {
+    if (prefix === '') {
+      throw new Error('eventsOfTypePrefix() requires a non-empty prefix');
+    }
+    return new ClauseBuilder([...this._clauses, { type: prefix, prefix: true, filter: null }], this._bounds);
+  }
+
+  /**
+   * Restrict the whole query to events that occurred in [from, to) —
+   * `from` inclusive, `to` exclusive. Served by the occurred_at BRIN index.
+   */
+  occurredBetween(from: Date, to: Date): ClauseBuilder<E, L, C> {
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      throw new Error('occurredBetween() requires valid Dates');
+    }
+    if (from.getTime() > to.getTime()) {
+      throw new Error('occurredBetween() requires from <= to');
+    }
+    return this._withBounds({ occurredFrom: from, occurredTo: to });
+  }
+
+  /** Restrict the whole query to events with global_position > `position`. */
+  afterPosition(position: bigint): ClauseBuilder<E, L, C> {
+    if (position < 0n) {
+      throw new Error(`afterPosition() requires a non-negative position, got ${position}`);
+    }
+    return this._withBounds({ afterPosition: position });
+  }
+
+  /** Restrict the whole query to events with global_position <= `position`. */
+  untilPosition(position: bigint): ClauseBuilder<E, L, C> {
+    if (position < 0n) {
+      throw new Error(`untilPosition() requires a non-negative position, got ${position}`);
+    }
+    return this._withBounds({ untilPosition: position });
+  }
+
+  private _withBounds(bounds: QueryBounds): ClauseBuilder<E, L, C> {
+    return new ClauseBuilder(this._clauses, { ...this._bounds, ...bounds });
+  }
 }
 
 /**
  * Intermediate builder step — holds the combinator and awaits a key name.
  */
-export class KeySelector {
+export class KeySelector<
+  E extends object = AnyEvents,
+  L extends EventType<E> = EventType<E>,
+  C extends EventType<E> = L,
+> {
   constructor(
-    private readonly _clauses: readonly Clause[],
+    private readonly _base: ClauseBuilder<E, L, C>,
     private readonly _combinator: 'where' | 'and' | 'or',
+    private readonly _negate: boolean = false,
   ) {}
 
-  /** Select the metadata/payload attribute key to match against. */
-  key(k: string): ValueSetter {
-    return new ValueSetter(this._clauses, this._combinator, k);
+  /** Negate the predicate that follows, e.g. `.where.not.key('status').equals('closed')`. */
+  get not(): KeySelector<E, L, C> {
+    return new KeySelector(this._base, this._combinator, !this._negate);
+  }
+
+  /**
+   * Add a parenthesised sub-expression built by `build`, e.g.
+   * `.where.key('a').equals(1).and.group(g => g.key('b').equals(2).or.key('c').equals(3))`
+   * for `a AND (b OR c)`. The group is kept as its own node in the filter tree.
+   */
+  group(build: (g: KeySelector<E, C, C>) => ClauseBuilder<E, C, C>): ClauseBuilder<E, L, C> {
+    const scratch = build(new KeySelector(new ClauseBuilder<E, C, C>([{ type: '', filter: null }]), 'where'));
+    const groupFilter = scratch._clauses.length === 1 ? scratch._clauses[0]!.filter : undefined;
+    if (groupFilter === undefined) {
+      throw new Error('group() callback must not add event types');
+    }
+    if (groupFilter === null) {
+      throw new Error('group() callback must add at least one predicate');
+    }
+    if (scratch._bounds !== undefined) {
+      throw new Error('group() callback must not set query bounds');
+    }
+    _groupNodes.add(groupFilter);
+    const newNode: FilterNode = this._negate ? { kind: 'not', filter: groupFilter } : groupFilter;
+    return _applyFilter(this._base, this._combinator, newNode);
+  }
+
+  /**
+   * Select the payload attribute to match against. Nested values are addressed
+   * with a dotted string (`'address.city'`) or an array of path segments.
+   * On a typed query only the payload's (dotted) keys are accepted.
+   */
+  key<K extends PayloadPath<PayloadOf<E, C>>>(
+    k: K | KeySegments<E>,
+  ): ValueSetter<E, L, C, PayloadValue<PayloadOf<E, C>, K>> {
+    return new ValueSetter(this._base, this._combinator, _payloadKey(k), 'payload', this._negate);
+  }
+
+  /**
+   * Select an event metadata attribute to match against (e.g. `'correlationId'`).
+   * Accepts the same dotted or array paths as key(). Events without metadata never match.
+   */
+  metadata(k: string | readonly string[]): ValueSetter<E, L, C> {
+    return new ValueSetter(this._base, this._combinator, _payloadKey(k), 'metadata', this._negate);
+  }
+
+  /**
+   * Match events carrying every one of `tags` (see NewEvent.tags).
+   * Compiled to array containment on the tags column, served by idx_events_tags_gin.
+   */
+  taggedWith(...tags: string[]): ClauseBuilder<E, L, C> {
+    if (tags.length === 0) {
+      throw new Error('taggedWith() requires at least one tag');
+    }
+    if (tags.some((tag) => tag.length === 0)) {
+      throw new Error('taggedWith() requires non-empty tags');
+    }
+    const node: FilterNode = { kind: 'tags', tags: [...new Set(tags)] };
+    return _applyFilter(this._base, this._combinator, this._negate ? { kind: 'not', filter: node } : node);
   }
 }
 
 /**
  * Intermediate builder step — holds the key and awaits a value to match.
+ * `V` is the key's payload type on a typed query, `unknown` otherwise.
  */
-export class ValueSetter {
+export class ValueSetter<
+  E extends object = AnyEvents,
+  L extends EventType<E> = EventType<E>,
+  C extends EventType<E> = L,
+  V = unknown,
+> {
   constructor(
-    private readonly _clauses: readonly Clause[],
+    private readonly _base: ClauseBuilder<E, L, C>,
     private readonly _combinator: 'where' | 'and' | 'or',
-    private readonly _key: string,
+    private readonly _key: PayloadKey,
+    private readonly _source: FilterSource,
+    private readonly _negate: boolean = false,
   ) {}
 
   /** Complete the filter expression with the value to match. */
-  equals(value: unknown): ClauseBuilder {
-    const newNode: FilterNode = { kind: 'attr', key: this._key, value };
-    return _applyFilter(this._clauses, this._combinator, newNode);
+  equals(value: V): ClauseBuilder<E, L, C> {
+    return this._apply({ kind: 'attr', key: this._key, value: _definedValue('equals', value), ...this._sourceField() });
+  }
+
+  /** Match events whose value for the key does not equal `value` (including events without the key). */
+  notEquals(value: V): ClauseBuilder<E, L, C> {
+    return this._apply({
+      kind: 'not',
+      filter: { kind: 'attr', key: this._key, value: _definedValue('notEquals', value), ...this._sourceField() },
+    });
+  }
+
+  /** Match events where the key is present, whatever its value (JSON null included). */
+  exists(): ClauseBuilder<E, L, C> {
+    return this._apply({ kind: 'exists', key: this._key, ...this._sourceField() });
+  }
+
+  /** Match events where the key is absent. */
+  missing(): ClauseBuilder<E, L, C> {
+    return this._apply({ kind: 'not', filter: { kind: 'exists', key: this._key, ...this._sourceField() } });
+  }
+
+  /**
+   * Match events whose value for the key equals any of `values`.
+   * Uses the same containment semantics as equals(); an empty list matches nothing.
+   */
+  in(values: readonly V[]): ClauseBuilder<E, L, C> {
+    return this._apply({ kind: 'in', key: this._key, values: values.map((v) => _definedValue('in', v)), ...this._sourceField() });
+  }
+
+  /**
+   * Match events whose array under the key contains `element`.
+   * Uses JSONB containment, so object elements match partially.
+   */
+  contains(element: ElementOf<V>): ClauseBuilder<E, L, C> {
+    return this._apply({ kind: 'contains', key: this._key, values: [element], ...this._sourceField() });
+  }
+
+  /** Match events whose array under the key contains every one of `elements`. */
+  containsAll(elements: readonly ElementOf<V>[]): ClauseBuilder<E, L, C> {
+    return this._apply({ kind: 'contains', key: this._key, values: [...elements], ...this._sourceField() });
+  }
+
+  /** Match events whose value for the key is greater than `value`. */
+  gt(value: RangeOperand<V>): ClauseBuilder<E, L, C> {
+    return this._range('gt', value);
+  }
+
+  /** Match events whose value for the key is greater than or equal to `value`. */
+  gte(value: RangeOperand<V>): ClauseBuilder<E, L, C> {
+    return this._range('gte', value);
+  }
+
+  /** Match events whose value for the key is less than `value`. */
+  lt(value: RangeOperand<V>): ClauseBuilder<E, L, C> {
+    return this._range('lt', value);
+  }
+
+  /** Match events whose value for the key is less than or equal to `value`. */
+  lte(value: RangeOperand<V>): ClauseBuilder<E, L, C> {
+    return this._range('lte', value);
+  }
+
+  /**
+   * Match events whose value for the key lies within [from, to] (inclusive).
+   * Both bounds must be of the same kind (number, string or Date).
+   */
+  between(from: RangeOperand<V>, to: RangeOperand<V>): ClauseBuilder<E, L, C> {
+    const lower = _rangeOperand(from);
+    const upper = _rangeOperand(to);
+    if (lower.valueType !== upper.valueType) {
+      throw new Error(
+        `between() bounds must have the same type, got ${lower.valueType} and ${upper.valueType}`,
+      );
+    }
+    return this._apply({
+      kind: 'between',
+      key: this._key,
+      valueType: lower.valueType,
+      from: lower.value,
+      to: upper.value,
+      ...this._sourceField(),
+    });
+  }
+
+  private _range(op: RangeOperator, value: RangeValue): ClauseBuilder<E, L, C> {
+    const operand = _rangeOperand(value);
+    return this._apply({ kind: 'range', key: this._key, op, ...operand, ...this._sourceField() });
+  }
+
+  /** Wraps the node in a not-node when preceded by `.not`, then applies it to the last clause. */
+  private _apply(node: FilterNode): ClauseBuilder<E, L, C> {
+    const newNode: FilterNode = this._negate ? { kind: 'not', filter: node } : node;
+    return _applyFilter(this._base, this._combinator, newNode);
+  }
+
+  /** Payload is the default source, so it is left off the node to keep it minimal. */
+  private _sourceField(): { source?: FilterSource } {
+    return this._source === 'payload' ? {} : { source: this._source };
   }
 }
@@ -1,10 +1,115 @@
-import type { QueryDefinition, FilterNode, Clause } from './types.js';
+import type {
+  QueryDefinition,
+  QueryBounds,
+  FilterNode,
+  FilterSource,
+  Clause,
+  PayloadKey,
+  RangeOperator,
+  RangeValueType,
+} from './types.js';
+import { optimizeClauses } from './optimizer.js';
+import { ISO_TIMESTAMP_PATTERN } from './timestamp.js';
 
 export interface CompiledQuery {
   sql: string;
   params: unknown[];
 }
 
+export interface CompileOptions {
+  /** Group and simplify clauses before compiling (default: true). Turned off only to compare plans. */
+  optimize?: boolean;
+}
+
+const RANGE_OPERATORS: Record<RangeOperator, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+const RANGE_PARAM_CASTS: Record<RangeValueType, string> = {
+  number: 'numeric',
+  string: 'text',
+  date: 'timestamptz',
+};
+
+/** Returns the payload path segments addressed by a PayloadKey. */
+function keyPath(key: PayloadKey): string[] {
+  return typeof key === 'string' ? [key] : key;
+}
+
+/**
+ * Builds the containment document `{ a: { b: value } }` for a payload path.
+ * Only valid for object keys: `{ items: { 0: value } }` never matches an array.
+ */
+function containmentDocument(key: PayloadKey, value: unknown): string {
+  const doc = keyPath(key).reduceRight<unknown>((inner, segment) => ({ [segment]: inner }), value);
+  return JSON.stringify(doc);
+}
+
+/**
+ * True when a segment below the top level could address an array element,
+ * as `#>` reads it. The payload itself is always an object.
+ */
+function hasIndexSegment(key: PayloadKey): boolean {
+  return keyPath(key).slice(1).some((segment) => /^\s*[+-]?\d+$/.test(segment));
+}
+
+/**
+ * Containment of `{ "v": value }` in the value at a path read with `#>`, for
+ * paths a containment document cannot express. Wrapping keeps the rules of a
+ * nested `@>` (an array does not contain a bare scalar) and the IS NOT NULL
+ * keeps a missing path from matching null. Cannot use the GIN index.
+ */
+function pathContainment(column: string, pathRef: string, operand: string): string {
+  return `(${column} #> ${pathRef}::text[] IS NOT NULL`
+    + ` AND jsonb_build_object('v', ${column} #> ${pathRef}::text[]) @> ${operand})`;
+}
+
+/**
+ * Maps a FilterSource to its column. Column names are never taken from user input.
+ */
+function sourceColumn(source: FilterSource | undefined): string {
+  return source === 'metadata' ? 'metadata' : 'payload';
+}
+
+/**
+ * Builds a containment predicate against a JSONB column. metadata is nullable,
+ * so it is guarded to keep the predicate two-valued without hiding `@>` from the index.
+ */
+function containment(column: string, operand: string): string {
+  if (column === 'metadata') {
+    return `(metadata IS NOT NULL AND metadata @> ${operand})`;
+  }
+  return `${column} @> ${operand}`;
+}
+
+/**
+ * Builds a SQL expression extracting a JSONB path as a typed value.
+ * Yields NULL when the stored JSON value has the wrong type, so mismatched
+ * events never match and never raise cast errors. Dates must be strings
+ * matching ISO_TIMESTAMP_PATTERN; any other string is a mismatch too.
+ */
+function typedValue(column: string, pathRef: string, valueType: RangeValueType): string {
+  if (valueType === 'number') {
+    return `CASE WHEN jsonb_typeof(${column} #> ${pathRef}::text[]) = 'number' THEN (${column} #>> ${pathRef}::text[])::numeric END`;
+  }
+  if (valueType === 'date') {
+    // CASE evaluates the cast only for rows whose value passed the pattern
+    return `CASE WHEN jsonb_typeof(${column} #> ${pathRef}::text[]) = 'string'`
+      + ` AND (${column} #>> ${pathRef}::text[]) ~ '${ISO_TIMESTAMP_PATTERN}'`
+      + ` THEN (${column} #>> ${pathRef}::text[])::timestamptz END`;
+  }
+  return `CASE WHEN jsonb_typeof(${column} #> ${pathRef}::text[]) = 'string' THEN (${column} #>> ${pathRef}::text[]) COLLATE "C" END`;
+}
+
+function pushParam(value: unknown, params: unknown[], counter: { n: number }): string {
+  params.push(value);
+  counter.n += 1;
+  return `$${counter.n}`;
+}
+
 /**
  * Compiles a FilterNode into a SQL fragment and appends parameters.
  * Uses a shared counter object so recursive calls share the same sequence.
@@ -14,10 +119,65 @@ function compileFilterNode(
   params: unknown[],
   counter: { n: number },
 ): string {
+  if ((node.kind === 'attr' || node.kind === 'in' || node.kind === 'contains') && hasIndexSegment(node.key)) {
+    if (node.kind === 'in' && node.values.length === 0) return 'false';
+    const pathRef = pushParam(keyPath(node.key), params, counter);
+    const operand = node.kind === 'in'
+      ? `ANY(${pushParam(node.values.map((value) => JSON.stringify({ v: value })), params, counter)}::jsonb[])`
+      : `${pushParam(JSON.stringify({ v: node.kind === 'attr' ? node.value : node.values }), params, counter)}::jsonb`;
+    return pathContainment(sourceColumn(node.source), pathRef, operand);
+  }
+
   if (node.kind === 'attr') {
-    params.push(JSON.stringify({ [node.key]: node.value }));
+    params.push(containmentDocument(node.key, node.value));
     counter.n += 1;
-    return `payload @> $${counter.n}::jsonb`;
+    return containment(sourceColumn(node.source), `$${counter.n}::jsonb`);
+  }
+
+  if (node.kind === 'in') {
+    if (node.values.length === 0) return 'false';
+    // One jsonb[] parameter; @> ANY(...) can still use the GIN index via a bitmap scan
+    const documents = node.values.map((value) => containmentDocument(node.key, value));
+    return containment(sourceColumn(node.source), `ANY(${pushParam(documents, params, counter)}::jsonb[])`);
+  }
+
+  if (node.kind === 'contains') {
+    // { key: [elements] } — array containment, served by the same GIN index as equals()
+    const document = containmentDocument(node.key, node.values);
+    return containment(sourceColumn(node.source), `${pushParam(document, params, counter)}::jsonb`);
+  }
+
+  if (node.kind === 'range') {
+    const pathRef = pushParam(keyPath(node.key), params, counter);
+    const valueRef = pushParam(node.value, params, counter);
+    const cast = RANGE_PARAM_CASTS[node.valueType];
+    const expr = typedValue(sourceColumn(node.source), pathRef, node.valueType);
+    // COALESCE keeps the predicate two-valued: a missing or mistyped key is simply a non-match
+    return `COALESCE((${expr}) ${RANGE_OPERATORS[node.op]} ${valueRef}::${cast}, false)`;
+  }
+
+  if (node.kind === 'between') {
+    const pathRef = pushParam(keyPath(node.key), params, counter);
+    const fromRef = pushParam(node.from, params, counter);
+    const toRef = pushParam(node.to, params, counter);
+    const cast = RANGE_PARAM_CASTS[node.valueType];
+    const expr = typedValue(sourceColumn(node.source), pathRef, node.valueType);
+    return `COALESCE((${expr}) BETWEEN ${fromRef}::${cast} AND ${toRef}::${cast}, false)`;
+  }
+
+  if (node.kind === 'exists') {
+    const pathRef = pushParam(keyPath(node.key), params, counter);
+    return `(${sourceColumn(node.source)} #> ${pathRef}::text[]) IS NOT NULL`;
+  }
+
+  if (node.kind === 'tags') {
+    // TEXT[] containment — served by idx_events_tags_gin
+    return `tags @> ${pushParam(node.tags, params, counter)}::text[]`;
+  }
+
+  // Every leaf compiles to a two-valued predicate, so NOT never has to deal with NULL
+  if (node.kind === 'not') {
+    return `NOT (${compileFilterNode(node.filter, params, counter)})`;
   }
 
   if (node.kind === 'and') {
@@ -38,47 +198,91 @@ function compileClause(
   params: unknown[],
   counter: { n: number },
 ): string {
-  params.push(clause.type);
-  counter.n += 1;
-  const typeRef = `$${counter.n}`;
+  const typeSQL = compileTypeMatch(clause, params, counter);
 
   if (clause.filter === null) {
-    return `type = ${typeRef}`;
+    return typeSQL;
   }
 
   const filterSQL = compileFilterNode(clause.filter, params, counter);
-  return `(type = ${typeRef} AND ${filterSQL})`;
+  return `(${typeSQL} AND ${filterSQL})`;
+}
+
+/**
+ * Compiles the event-type part of a clause: exact match, a type list, or a prefix.
+ */
+function compileTypeMatch(
+  clause: Clause,
+  params: unknown[],
+  counter: { n: number },
+): string {
+  if (clause.prefix === true) {
+    // Escape LIKE wildcards so the prefix is matched literally
+    const pattern = `${String(clause.type).replace(/[\\%_]/g, '\\$&')}%`;
+    return `type LIKE ${pushParam(pattern, params, counter)}`;
+  }
+  if (Array.isArray(clause.type)) {
+    return `type = ANY(${pushParam(clause.type, params, counter)}::text[])`;
+  }
+  return `type = ${pushParam(clause.type, params, counter)}`;
 }
 
 /**
  * Compiles all clauses of a QueryDefinition into a WHERE clause SQL fragment.
+ * Clauses go through optimizeClauses() first, so clauses sharing a filter
+ * become one `type = ANY($n)` clause.
  */
 function compileWhereClause(
   query: QueryDefinition,
   params: unknown[],
   counter: { n: number },
+  options: CompileOptions = {},
 ): string {
-  const clauses = query._clauses;
+  const clauses = options.optimize === false ? query._clauses : optimizeClauses(query._clauses);
 
-  if (clauses.length === 1) {
-    const clauseSQL = compileClause(clauses[0] as Clause, params, counter);
-    return `WHERE ${clauseSQL}`;
-  }
+  const clauseSQL = clauses.length === 1
+    ? compileClause(clauses[0] as Clause, params, counter)
+    : `(${clauses.map((clause) => compileClause(clause, params, counter)).join(' OR ')})`;
 
-  const parts = clauses.map((clause) => compileClause(clause, params, counter));
-  return `WHERE (${parts.join(' OR ')})`;
+  const bounds = compileBounds(query._bounds, params, counter);
+  return `WHERE ${[clauseSQL, ...bounds].join(' AND ')}`;
+}
+
+/**
+ * Compiles query-wide bounds into AND-ed conditions on global_position and occurred_at.
+ */
+function compileBounds(
+  bounds: QueryBounds | undefined,
+  params: unknown[],
+  counter: { n: number },
+): string[] {
+  if (bounds === undefined) return [];
+  const conditions: string[] = [];
+  if (bounds.afterPosition !== undefined) {
+    conditions.push(`global_position > ${pushParam(bounds.afterPosition, params, counter)}`);
+  }
+  if (bounds.untilPosition !== undefined) {
+    conditions.push(`global_position <= ${pushParam(bounds.untilPosition, params, counter)}`);
+  }
+  if (bounds.occurredFrom !== undefined) {
+    conditions.push(`occurred_at >= ${pushParam(bounds.occurredFrom.toISOString(), params, counter)}::timestamptz`);
+  }
+  if (bounds.occurredTo !== undefined) {
+    conditions.push(`occurred_at < ${pushParam(bounds.occurredTo.toISOString(), params, counter)}::timestamptz`);
+  }
+  return conditions;
 }
 
 /**
  * Compiles a QueryDefinition into a full SELECT query ordered by global_position ASC.
  */
-export function compileLoadQuery(query: QueryDefinition): CompiledQuery {
+export function compileLoadQuery(query: QueryDefinition, options: CompileOptions = {}): CompiledQuery {
   const params: unknown[] = [];
   const counter = { n: 0 };
-  const whereClause = compileWhereClause(query, params, counter);
+  const whereClause = compileWhereClause(query, params, counter, options);
 
   const sql = [
-    'SELECT global_position, event_id, type, payload, metadata, occurred_at',
+    'SELECT global_position, event_id, type, payload, metadata, tags, occurred_at',
     'FROM events',
     whereClause,
     'ORDER BY global_position ASC',
@@ -105,6 +309,42 @@ export function compileVersionCheckQuery(query: QueryDefinition): CompiledQuery
   return { sql, params };
 }
 
+/**
+ * Compiles a QueryDefinition into a SELECT EXISTS (...) AS found query.
+ * Postgres stops at the first matching row.
+ */
+export function compileExistsQuery(query: QueryDefinition): CompiledQuery {
+  const params: unknown[] = [];
+  const counter = { n: 0 };
+  const whereClause = compileWhereClause(query, params, counter);
+
+  const sql = [
+    'SELECT EXISTS (',
+    'SELECT 1 FROM events',
+    whereClause,
+    ') AS found',
+  ].join('\n');
+
+  return { sql, params };
+}
+
+/**
+ * Compiles a QueryDefinition into a SELECT COUNT(*) AS count query.
+ */
+export function compileCountQuery(query: QueryDefinition): CompiledQuery {
+  const params: unknown[] = [];
+  const counter = { n: 0 };
+  const whereClause = compileWhereClause(query, params, counter);
+
+  const sql = [
+    'SELECT COUNT(*) AS count',
+    'FROM events',
+    whereClause,
+  ].join('\n');
+
+  return { sql, params };
+}
+
 /**
  * Compiles a QueryDefinition into a keyset-paginated SELECT query.
  * Appends AND global_position > $N LIMIT $M to the WHERE clause.
@@ -132,7 +372,7 @@ export function compileStreamQuery(
   const limitRef = `$${counter.n}`;
 
   const sql = [
-    'SELECT global_position, event_id, type, payload, metadata, occurred_at',
+    'SELECT global_position, event_id, type, payload, metadata, tags, occurred_at',
     'FROM events',
     `${whereClause} AND global_position > ${positionRef}`,
     'ORDER BY global_position ASC',
@@ -143,23 +383,34 @@ export function compileStreamQuery(
 }
 
 /**
- * Produces a stable canonical string representation of a QueryDefinition.
- * Clauses are sorted alphabetically by type. Used for advisory lock key derivation.
+ * Compiles a QueryDefinition into a keyset-paginated SELECT query in descending order.
+ * Appends AND global_position < $N (omitted when `beforePosition` is null, i.e. on the
+ * first page) and LIMIT $M to the WHERE clause.
+ *
+ * @param paramOffset - see compileStreamQuery.
  */
-export function compileCanonicalKey(query: QueryDefinition): string {
-  function canonicalFilter(node: FilterNode | null): unknown {
-    if (node === null) return null;
-    if (node.kind === 'attr') {
-      return { kind: 'attr', key: node.key, value: node.value };
-    }
-    return { kind: node.kind, filters: node.filters.map(canonicalFilter) };
+export function compileBackwardStreamQuery(
+  query: QueryDefinition,
+  beforePosition: bigint | null,
+  batchSize: number,
+  paramOffset: number = 0,
+): CompiledQuery {
+  const params: unknown[] = [];
+  const counter = { n: paramOffset };
+  let whereClause = compileWhereClause(query, params, counter);
+
+  if (beforePosition !== null) {
+    whereClause += ` AND global_position < ${pushParam(beforePosition, params, counter)}`;
   }
+  const limitRef = pushParam(batchSize, params, counter);
 
-  const sorted = [...query._clauses].sort((a, b) => a.type.localeCompare(b.type));
-  const canonical = sorted.map((clause) => ({
-    type: clause.type,
-    filter: canonicalFilter(clause.filter),
-  }));
+  const sql = [
+    'SELECT global_position, event_id, type, payload, metadata, tags, occurred_at',
+    'FROM events',
+    whereClause,
+    'ORDER BY global_position DESC',
+    `LIMIT ${limitRef}`,
+  ].join('\n');
 
-  return JSON.stringify(canonical);
+  return { sql, params };
 }
@@ -0,0 +1,171 @@
+import type { StoredEvent } from '../types.js';
+import type { Clause, FilterNode, PayloadKey, QueryBounds, QueryDefinition, RangeOperator, RangeValueType } from './types.js';
+import { parseIsoTimestamp } from './timestamp.js';
+
+/**
+ * Returns true when `event` satisfies `query` — the in-memory counterpart of
+ * the SQL WHERE clause built by the compiler, with the same semantics:
+ * JSONB containment for equals/in/contains, typed comparisons for ranges,
+ * `#>` path lookup for exists, OR across clauses and AND with the bounds.
+ */
+export function matches(query: QueryDefinition, event: StoredEvent<unknown>): boolean {
+  return query._clauses.some((clause) => matchClause(clause, event)) && withinBounds(query._bounds, event);
+}
+
+function matchClause(clause: Clause, event: StoredEvent<unknown>): boolean {
+  const typeMatches = clause.prefix === true
+    ? event.type.startsWith(String(clause.type))
+    : typeof clause.type === 'string'
+      ? event.type === clause.type
+      : clause.type.includes(event.type);
+  return typeMatches && (clause.filter === null || matchFilter(clause.filter, event));
+}
+
+function withinBounds(bounds: QueryBounds | undefined, event: StoredEvent<unknown>): boolean {
+  if (bounds === undefined) return true;
+  const occurredAt = event.occurredAt.getTime();
+  return (bounds.afterPosition === undefined || event.globalPosition > bounds.afterPosition)
+    && (bounds.untilPosition === undefined || event.globalPosition <= bounds.untilPosition)
+    && (bounds.occurredFrom === undefined || occurredAt >= bounds.occurredFrom.getTime())
+    && (bounds.occurredTo === undefined || occurredAt < bounds.occurredTo.getTime());
+}
+
+function matchFilter(node: FilterNode, event: StoredEvent<unknown>): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.filters.every((f) => matchFilter(f, event));
+    case 'or':
+      return node.filters.some((f) => matchFilter(f, event));
+    case 'not':
+      return !matchFilter(node.filter, event);
+    case 'tags':
+      return node.tags.every((tag) => event.tags.includes(tag));
+  }
+
+  // Leaf nodes read from payload or metadata; a null metadata column never matches
+  const document = node.source === 'metadata' ? event.metadata : event.payload;
+  if (document === null || document === undefined) return false;
+
+  switch (node.kind) {
+    case 'attr':
+      return containsAt(document, node.key, node.value);
+    case 'in':
+      return node.values.some((v) => containsAt(document, node.key, v));
+    case 'contains':
+      return containsAt(document, node.key, node.values);
+    case 'exists':
+      return extractPath(document, node.key) !== undefined;
+    case 'range': {
+      const actual = typedValue(extractPath(document, node.key), node.valueType);
+      return actual !== undefined && compare(actual, operand(node.value, node.valueType), node.op);
+    }
+    case 'between': {
+      const actual = typedValue(extractPath(document, node.key), node.valueType);
+      return actual !== undefined
+        && compare(actual, operand(node.from, node.valueType), 'gte')
+        && compare(actual, operand(node.to, node.valueType), 'lte');
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JSONB semantics
+// ---------------------------------------------------------------------------
+
+function keyPath(key: PayloadKey): string[] {
+  return typeof key === 'string' ? [key] : key;
+}
+
+/**
+ * Whether the value at the key path contains `value` by the rules of a nested
+ * `@>`. Equivalent to the compiler's containment document `{ a: { b: value } }`
+ * for object keys, and to its `#>` form for array indices. `value` is
+ * round-tripped through JSON like the jsonb parameter (Dates become strings, etc.).
+ */
+function containsAt(document: unknown, key: PayloadKey, value: unknown): boolean {
+  const actual = extractPath(document, key);
+  return actual !== undefined && jsonContains({ v: actual }, JSON.parse(JSON.stringify({ v: value })));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * PostgreSQL `a @> b`: objects contain a subset of keys with contained values,
+ * arrays contain every element of `b` somewhere in `a`, scalars must be equal.
+ * Below the top level, the only level compared here, an array never contains
+ * a bare scalar.
+ */
+function jsonContains(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a)) {
+    if (Array.isArray(b)) {
+      return b.every((bItem) => a.some((aItem) => jsonContainsElement(aItem, bItem)));
+    }
+    return false;
+  }
+  if (isObject(a)) {
+    return isObject(b) && Object.entries(b).every(([k, v]) => Object.hasOwn(a, k) && jsonContains(a[k], v));
+  }
+  return !Array.isArray(b) && !isObject(b) && a === b;
+}
+
+// Inside an array a scalar element only matches an equal scalar, never an array holding it
+function jsonContainsElement(a: unknown, b: unknown): boolean {
+  if (Array.isArray(b)) return Array.isArray(a) && jsonContains(a, b);
+  if (isObject(b)) return isObject(a) && jsonContains(a, b);
+  return a === b;
+}
+
+/** PostgreSQL `#>`: object keys by name, array elements by (possibly negative) integer index. */
+function extractPath(document: unknown, key: PayloadKey): unknown {
+  let current: unknown = document;
+  for (const segment of keyPath(key)) {
+    if (Array.isArray(current)) {
+      if (!/^\s*[+-]?\d+$/.test(segment)) return undefined;
+      const index = Number(segment);
+      current = current[index < 0 ? current.length + index : index];
+    } else if (isObject(current) && Object.hasOwn(current, segment)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+// ---------------------------------------------------------------------------
+// Typed comparisons
+// ---------------------------------------------------------------------------
+
+/** The value as the compiler's CASE expression sees it; undefined stands for SQL NULL. */
+function typedValue(value: unknown, valueType: RangeValueType): number | string | undefined {
+  if (valueType === 'number') return typeof value === 'number' ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  return valueType === 'string' ? value : parseIsoTimestamp(value);
+}
+
+/** A range operand as bound by the compiler; dates are cast like `$n::timestamptz`. */
+function operand(value: number | string, valueType: RangeValueType): number | string {
+  return valueType === 'date' ? new Date(value).getTime() : value;
+}
+
+function compare(actual: number | string, operand: number | string, op: RangeOperator): boolean {
+  const order = typeof actual === 'string' ? compareCodePoints(actual, operand as string) : actual - (operand as number);
+  switch (op) {
+    case 'gt': return order > 0;
+    case 'gte': return order >= 0;
+    case 'lt': return order < 0;
+    case 'lte': return order <= 0;
+  }
+}
+
+/** COLLATE "C" orders by UTF-8 bytes, which is code point order — not UTF-16 unit order. */
+function compareCodePoints(a: string, b: string): number {
+  const left = Array.from(a, (c) => c.codePointAt(0)!);
+  const right = Array.from(b, (c) => c.codePointAt(0)!);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) return left[i]! - right[i]!;
+  }
+  return left.length - right.length;
+}
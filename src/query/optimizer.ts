@@ -0,0 +1,61 @@
+import type { Clause, FilterNode } from './types.js';
+
+/**
+ * Flattens trivial nodes: nested AND/OR of the same kind are inlined,
+ * duplicate children dropped, single-child AND/OR replaced by the child and
+ * NOT (NOT x) by x — sound because every compiled leaf is two-valued.
+ */
+export function simplifyFilter(node: FilterNode): FilterNode {
+  if (node.kind === 'not') {
+    const inner = simplifyFilter(node.filter);
+    return inner.kind === 'not' ? inner.filter : { kind: 'not', filter: inner };
+  }
+  if (node.kind !== 'and' && node.kind !== 'or') return node;
+
+  const children = new Map<string, FilterNode>();
+  for (const child of node.filters.map(simplifyFilter)) {
+    for (const part of child.kind === node.kind ? child.filters : [child]) {
+      children.set(JSON.stringify(part), part);
+    }
+  }
+  const filters = [...children.values()];
+  return filters.length === 1 ? (filters[0] as FilterNode) : { kind: node.kind, filters };
+}
+
+/**
+ * Rewrites clauses into an equivalent, smaller set for SQL compilation:
+ * clauses with an identical filter are grouped into one clause over all
+ * their types (compiled to `type = ANY($n)`), exact duplicates disappear and
+ * clauses that match nothing are dropped. Prefix clauses are only merged with
+ * the same prefix. Clause order follows first appearance.
+ *
+ * Only the compiled SQL changes — the lock set append() takes is derived from
+ * the query as written.
+ */
+export function optimizeClauses(clauses: readonly Clause[]): Clause[] {
+  const groups = new Map<string, { prefix: string | null; types: Set<string>; filter: FilterNode | null }>();
+
+  for (const clause of clauses) {
+    const filter = clause.filter === null ? null : simplifyFilter(clause.filter);
+    const filterKey = JSON.stringify(filter);
+    const prefix = clause.prefix === true ? String(clause.type) : null;
+    const groupKey = prefix === null ? `types:${filterKey}` : `prefix:${JSON.stringify(prefix)}:${filterKey}`;
+
+    const group = groups.get(groupKey) ?? { prefix, types: new Set<string>(), filter };
+    if (prefix === null) {
+      for (const type of typeof clause.type === 'string' ? [clause.type] : clause.type) group.types.add(type);
+    }
+    groups.set(groupKey, group);
+  }
+
+  const optimized: Clause[] = [];
+  for (const { prefix, types, filter } of groups.values()) {
+    if (prefix !== null) {
+      optimized.push({ type: prefix, prefix: true, filter });
+    } else if (types.size > 0) {
+      optimized.push({ type: types.size === 1 ? ([...types][0] as string) : [...types], filter });
+    }
+  }
+  // A query of only empty type lists still needs a clause: it matches nothing
+  return optimized.length > 0 ? optimized : [{ type: [], filter: null }];
+}
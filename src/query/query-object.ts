@@ -1,4 +1,41 @@
+import type { QueryEvent } from '../types.js';
+import { exceptQueries, intersectQueries, unionQueries } from './algebra.js';
 import { ClauseBuilder } from './builder.js';
+import type { AnyEvents, EventType, PrefixedEventType, QueryDefinition, SelectedType } from './types.js';
+
+type SingleClause<E extends object, T extends EventType<E>> = ClauseBuilder<E, SelectedType<E, T>, SelectedType<E, T>>;
+
+/**
+ * Starting points of the query DSL, typed over event map `E`.
+ */
+export interface QueryEntryPoint<E extends object = AnyEvents> {
+  eventsOfType<T extends EventType<E>>(type: T): SingleClause<E, T>;
+  /** Alias for eventsOfType — delegates to avoid duplication. */
+  allEventsOfType<T extends EventType<E>>(type: T): SingleClause<E, T>;
+  /** One clause for several event types — a following filter applies to all of them. */
+  eventsOfTypes<T extends EventType<E>>(types: readonly T[]): SingleClause<E, T>;
+  /** One clause for every event type starting with `prefix`, e.g. 'Student'. */
+  eventsOfTypePrefix<P extends string>(
+    prefix: P,
+  ): ClauseBuilder<E, PrefixedEventType<E, P>, PrefixedEventType<E, P>>;
+}
+
+function entryPoint<E extends object>(): QueryEntryPoint<E> {
+  return {
+    eventsOfType(type) {
+      return new ClauseBuilder([{ type, filter: null }]);
+    },
+    allEventsOfType(type) {
+      return this.eventsOfType(type);
+    },
+    eventsOfTypes(types) {
+      return new ClauseBuilder<E, never, never>([]).eventsOfTypes(types);
+    },
+    eventsOfTypePrefix(prefix) {
+      return new ClauseBuilder<E, never, never>([]).eventsOfTypePrefix(prefix);
+    },
+  };
+}
 
 /**
  * Entry point for the query DSL.
@@ -9,13 +46,37 @@ import { ClauseBuilder } from './builder.js';
  *   .and.key('region').equals('EU')
  *   .eventsOfType('OrderShipped')
  *     .where.key('orderId').equals('o1')
+ *
+ * @example
+ * // Typed over an event map: unknown types, keys and value types fail to compile
+ * const q = query.typed<EventPayloadMap>();
+ * q.eventsOfType('StudentEnrolled').where.key('courseId').equals('c1')
  */
 export const query = {
-  eventsOfType(type: string): ClauseBuilder {
-    return new ClauseBuilder([{ type, filter: null }]);
+  ...entryPoint<AnyEvents>(),
+  /** The same DSL, checked against event map `E` (event type → payload type). */
+  typed<E extends object>(): QueryEntryPoint<E> {
+    return entryPoint<E>();
   },
-  /** Alias for eventsOfType — delegates to avoid duplication. */
-  allEventsOfType(type: string): ClauseBuilder {
-    return query.eventsOfType(type);
+  /** Events matched by either query. Both must have the same bounds. */
+  union<A extends QueryDefinition, B extends QueryDefinition>(
+    a: A,
+    b: B,
+  ): QueryDefinition<QueryEvent<A> | QueryEvent<B>> {
+    return unionQueries(a, b);
+  },
+  /** Events matched by both queries, within both queries' bounds. */
+  intersect<A extends QueryDefinition, B extends QueryDefinition>(
+    a: A,
+    b: B,
+  ): QueryDefinition<Extract<QueryEvent<A>, { type: QueryEvent<B>['type'] }>> {
+    return intersectQueries(a, b);
+  },
+  /**
+   * Events matched by `a` but not by `b`. Throws when the difference cannot be
+   * expressed as clauses, e.g. removing one type from a prefix clause.
+   */
+  except<A extends QueryDefinition>(a: A, b: QueryDefinition): QueryDefinition<QueryEvent<A>> {
+    return exceptQueries(a, b);
   },
 };
@@ -0,0 +1,301 @@
+import { InvalidQueryError } from '../errors.js';
+import { ClauseBuilder } from './builder.js';
+import type { Clause, FilterNode, PayloadKey, QueryBounds, QueryDefinition, RangeValueType } from './types.js';
+import { parseIsoTimestamp } from './timestamp.js';
+
+/** Current version of the serialized query format. */
+const FORMAT_VERSION = 1;
+
+/** Filter nodes nested deeper than this are rejected by parseQuery(). */
+const MAX_FILTER_DEPTH = 32;
+
+/**
+ * Portable JSON form of a QueryDefinition. Filter nodes are carried as-is;
+ * positions are decimal strings and timestamps ISO-8601 strings.
+ */
+export interface SerializedQuery {
+  version: 1;
+  clauses: Array<{ type: string | string[]; prefix?: true; filter: FilterNode | null }>;
+  bounds?: {
+    afterPosition?: string;
+    untilPosition?: string;
+    occurredFrom?: string;
+    occurredTo?: string;
+  };
+}
+
+/**
+ * Converts a query into a versioned, JSON-safe document that parseQuery() accepts.
+ */
+export function serializeQuery(query: QueryDefinition): SerializedQuery {
+  const clauses = query._clauses.map((clause) => ({
+    type: typeof clause.type === 'string' ? clause.type : [...clause.type],
+    ...(clause.prefix === true ? { prefix: true as const } : {}),
+    filter: clause.filter === null ? null : (JSON.parse(JSON.stringify(clause.filter)) as FilterNode),
+  }));
+
+  const bounds = query._bounds;
+  if (bounds === undefined || Object.keys(bounds).length === 0) {
+    return { version: FORMAT_VERSION, clauses };
+  }
+  return {
+    version: FORMAT_VERSION,
+    clauses,
+    bounds: {
+      ...(bounds.afterPosition !== undefined ? { afterPosition: bounds.afterPosition.toString() } : {}),
+      ...(bounds.untilPosition !== undefined ? { untilPosition: bounds.untilPosition.toString() } : {}),
+      ...(bounds.occurredFrom !== undefined ? { occurredFrom: bounds.occurredFrom.toISOString() } : {}),
+      ...(bounds.occurredTo !== undefined ? { occurredTo: bounds.occurredTo.toISOString() } : {}),
+    },
+  };
+}
+
+/**
+ * Validates a serialized query (a parsed object or its JSON text) and rebuilds
+ * the QueryDefinition. Throws InvalidQueryError naming the first offending path.
+ */
+export function parseQuery(input: unknown): QueryDefinition {
+  let document = input;
+  if (typeof input === 'string') {
+    try {
+      document = JSON.parse(input) as unknown;
+    } catch (err) {
+      throw new InvalidQueryError('$', `not valid JSON (${(err as Error).message})`);
+    }
+  }
+
+  const root = expectObject(document, '$', ['version', 'clauses'], ['bounds']);
+  if (root['version'] !== FORMAT_VERSION) {
+    throw new InvalidQueryError('$.version', `unsupported version ${JSON.stringify(root['version'])}`);
+  }
+
+  const rawClauses = root['clauses'];
+  if (!Array.isArray(rawClauses) || rawClauses.length === 0) {
+    throw new InvalidQueryError('$.clauses', 'must be a non-empty array');
+  }
+  const clauses = rawClauses.map((c, i) => parseClause(c, `$.clauses[${i}]`));
+
+  const bounds = root['bounds'] === undefined ? undefined : parseBounds(root['bounds'], '$.bounds');
+  return new ClauseBuilder(clauses, bounds);
+}
+
+// ---------------------------------------------------------------------------
+// Validation helpers
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectObject(
+  value: unknown,
+  path: string,
+  required: readonly string[],
+  optional: readonly string[] = [],
+): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw new InvalidQueryError(path, 'must be an object');
+  }
+  const record = value;
+  for (const name of required) {
+    if (record[name] === undefined) {
+      throw new InvalidQueryError(`${path}.${name}`, 'is required');
+    }
+  }
+  for (const name of Object.keys(record)) {
+    if (!required.includes(name) && !optional.includes(name)) {
+      throw new InvalidQueryError(`${path}.${name}`, 'unknown property');
+    }
+  }
+  return record;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new InvalidQueryError(path, 'must be a non-empty string');
+  }
+  return value;
+}
+
+function expectStringList(value: unknown, path: string): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new InvalidQueryError(path, 'must be a non-empty array of strings');
+  }
+  return value.map((v, i) => expectString(v, `${path}[${i}]`));
+}
+
+function expectJsonValue(value: unknown, path: string): unknown {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new InvalidQueryError(path, 'must be a finite number');
+    return value;
+  }
+  if (Array.isArray(value)) return value.map((v, i) => expectJsonValue(v, `${path}[${i}]`));
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, expectJsonValue(v, `${path}.${k}`)]),
+    );
+  }
+  throw new InvalidQueryError(path, 'must be a JSON value');
+}
+
+// Strict: `new Date()` alone accepts "1" and reads offset-less values in the local time zone
+function expectIsoDate(value: unknown, path: string): Date {
+  const time = parseIsoTimestamp(expectString(value, path));
+  if (time === undefined) {
+    throw new InvalidQueryError(path, 'must be an ISO-8601 timestamp with an offset');
+  }
+  return new Date(time);
+}
+
+function parseClause(value: unknown, path: string): Clause {
+  const record = expectObject(value, path, ['type'], ['prefix', 'filter']);
+  // An empty type list is a clause that matches nothing, e.g. from query.intersect()
+  const type = Array.isArray(record['type'])
+    ? record['type'].map((t, i) => expectString(t, `${path}.type[${i}]`))
+    : expectString(record['type'], `${path}.type`);
+
+  const prefix = record['prefix'];
+  if (prefix !== undefined && typeof prefix !== 'boolean') {
+    throw new InvalidQueryError(`${path}.prefix`, 'must be a boolean');
+  }
+  if (prefix === true && typeof type !== 'string') {
+    throw new InvalidQueryError(`${path}.prefix`, 'requires a single type');
+  }
+
+  const rawFilter = record['filter'] ?? null;
+  const filter = rawFilter === null ? null : parseFilter(rawFilter, `${path}.filter`, 0);
+  return { type, ...(prefix === true ? { prefix: true } : {}), filter };
+}
+
+function parseKey(value: unknown, path: string): PayloadKey {
+  return Array.isArray(value) ? expectStringList(value, path) : expectString(value, path);
+}
+
+function parseSource(record: Record<string, unknown>, path: string): object {
+  const source = record['source'];
+  if (source === undefined) return {};
+  if (source !== 'payload' && source !== 'metadata') {
+    throw new InvalidQueryError(`${path}.source`, "must be 'payload' or 'metadata'");
+  }
+  return { source };
+}
+
+function parseRangeOperand(value: unknown, valueType: RangeValueType, path: string): number | string {
+  if (valueType === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new InvalidQueryError(path, 'must be a finite number');
+    }
+    return value;
+  }
+  if (valueType === 'date') return expectIsoDate(value, path).toISOString();
+  if (typeof value !== 'string') {
+    throw new InvalidQueryError(path, 'must be a string');
+  }
+  return value;
+}
+
+function parseValueType(value: unknown, path: string): RangeValueType {
+  if (value !== 'number' && value !== 'string' && value !== 'date') {
+    throw new InvalidQueryError(path, "must be 'number', 'string' or 'date'");
+  }
+  return value;
+}
+
+function parseFilter(value: unknown, path: string, depth: number): FilterNode {
+  if (depth >= MAX_FILTER_DEPTH) {
+    throw new InvalidQueryError(path, `filters may nest at most ${MAX_FILTER_DEPTH} levels`);
+  }
+  if (!isRecord(value)) {
+    throw new InvalidQueryError(path, 'must be an object');
+  }
+  const kind = value['kind'];
+
+  switch (kind) {
+    case 'attr': {
+      const r = expectObject(value, path, ['kind', 'key', 'value'], ['source']);
+      return {
+        kind, key: parseKey(r['key'], `${path}.key`), value: expectJsonValue(r['value'], `${path}.value`),
+        ...parseSource(r, path),
+      };
+    }
+    case 'in':
+    case 'contains': {
+      const r = expectObject(value, path, ['kind', 'key', 'values'], ['source']);
+      if (!Array.isArray(r['values'])) {
+        throw new InvalidQueryError(`${path}.values`, 'must be an array');
+      }
+      return {
+        kind, key: parseKey(r['key'], `${path}.key`),
+        values: r['values'].map((v, i) => expectJsonValue(v, `${path}.values[${i}]`)),
+        ...parseSource(r, path),
+      };
+    }
+    case 'range': {
+      const r = expectObject(value, path, ['kind', 'key', 'op', 'valueType', 'value'], ['source']);
+      const op = r['op'];
+      if (op !== 'gt' && op !== 'gte' && op !== 'lt' && op !== 'lte') {
+        throw new InvalidQueryError(`${path}.op`, "must be 'gt', 'gte', 'lt' or 'lte'");
+      }
+      const valueType = parseValueType(r['valueType'], `${path}.valueType`);
+      return {
+        kind, key: parseKey(r['key'], `${path}.key`), op, valueType,
+        value: parseRangeOperand(r['value'], valueType, `${path}.value`),
+        ...parseSource(r, path),
+      };
+    }
+    case 'between': {
+      const r = expectObject(value, path, ['kind', 'key', 'valueType', 'from', 'to'], ['source']);
+      const valueType = parseValueType(r['valueType'], `${path}.valueType`);
+      return {
+        kind, key: parseKey(r['key'], `${path}.key`), valueType,
+        from: parseRangeOperand(r['from'], valueType, `${path}.from`),
+        to: parseRangeOperand(r['to'], valueType, `${path}.to`),
+        ...parseSource(r, path),
+      };
+    }
+    case 'exists': {
+      const r = expectObject(value, path, ['kind', 'key'], ['source']);
+      return { kind, key: parseKey(r['key'], `${path}.key`), ...parseSource(r, path) };
+    }
+    case 'tags': {
+      const r = expectObject(value, path, ['kind', 'tags']);
+      return { kind, tags: expectStringList(r['tags'], `${path}.tags`) };
+    }
+    case 'not': {
+      const r = expectObject(value, path, ['kind', 'filter']);
+      return { kind, filter: parseFilter(r['filter'], `${path}.filter`, depth + 1) };
+    }
+    case 'and':
+    case 'or': {
+      const r = expectObject(value, path, ['kind', 'filters']);
+      if (!Array.isArray(r['filters']) || r['filters'].length === 0) {
+        throw new InvalidQueryError(`${path}.filters`, 'must be a non-empty array');
+      }
+      return { kind, filters: r['filters'].map((f, i) => parseFilter(f, `${path}.filters[${i}]`, depth + 1)) };
+    }
+    default:
+      throw new InvalidQueryError(`${path}.kind`, `unknown filter kind ${JSON.stringify(kind)}`);
+  }
+}
+
+function parseBounds(value: unknown, path: string): QueryBounds {
+  const r = expectObject(value, path, [], ['afterPosition', 'untilPosition', 'occurredFrom', 'occurredTo']);
+  const bounds: QueryBounds = {};
+  for (const name of ['afterPosition', 'untilPosition'] as const) {
+    const raw = r[name];
+    if (raw === undefined) continue;
+    if (typeof raw !== 'string' || !/^\d+$/.test(raw)) {
+      throw new InvalidQueryError(`${path}.${name}`, 'must be a non-negative integer string');
+    }
+    bounds[name] = BigInt(raw);
+  }
+  for (const name of ['occurredFrom', 'occurredTo'] as const) {
+    if (r[name] !== undefined) bounds[name] = expectIsoDate(r[name], `${path}.${name}`);
+  }
+  if (bounds.occurredFrom !== undefined && bounds.occurredTo !== undefined
+    && bounds.occurredFrom.getTime() > bounds.occurredTo.getTime()) {
+    throw new InvalidQueryError(path, 'occurredFrom must not be after occurredTo');
+  }
+  return bounds;
+}
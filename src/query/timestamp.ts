@@ -0,0 +1,27 @@
+/**
+ * Payload strings date ranges compare: a full ISO-8601 timestamp with an
+ * explicit offset and at most millisecond precision, e.g. what
+ * `Date.prototype.toISOString()` produces. Day-of-month and leap years are
+ * checked, so every match casts to timestamptz without error and parses to
+ * the same instant with `new Date()`. Without an offset PostgreSQL would read
+ * the value in the session TimeZone but JavaScript in UTC, so such values,
+ * like any other string, do not match.
+ *
+ * Written in the regex subset PostgreSQL (`~`) and JavaScript share, without
+ * quotes or backslashes so it can be inlined as an SQL literal.
+ */
+export const ISO_TIMESTAMP_PATTERN = [
+  '^(?:',
+  '(?:000[1-9]|00[1-9][0-9]|0[1-9][0-9]{2}|[1-9][0-9]{3})-',
+  '(?:(?:0[1-9]|1[0-2])-(?:0[1-9]|1[0-9]|2[0-8])|(?:0[13-9]|1[0-2])-(?:29|30)|(?:0[13578]|1[02])-31)',
+  '|(?:[0-9]{2}(?:0[48]|[2468][048]|[13579][26])|(?:0[48]|[2468][048]|[13579][26])00)-02-29',
+  ')T(?:[01][0-9]|2[0-3]):[0-5][0-9](?::[0-5][0-9](?:[.][0-9]{1,3})?)?',
+  '(?:Z|[+-](?:0[0-9]|1[0-4]):[0-5][0-9])$',
+].join('');
+
+const ISO_TIMESTAMP = new RegExp(ISO_TIMESTAMP_PATTERN);
+
+/** Epoch milliseconds of an ISO_TIMESTAMP_PATTERN string, else undefined. */
+export function parseIsoTimestamp(value: string): number | undefined {
+  return ISO_TIMESTAMP.test(value) ? new Date(value).getTime() : undefined;
+}
@@ -1,17 +1,118 @@
+/** Comparison operators supported by range filters. */
+export type RangeOperator = 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * How a range filter interprets the payload value it compares against.
+ * Dates are carried as ISO-8601 strings so FilterNodes stay plain JSON.
+ */
+export type RangeValueType = 'number' | 'string' | 'date';
+
+/**
+ * Location of a value inside the payload. A plain string is a single top-level
+ * key; an array is a path of nested keys. Below the top level a numeric
+ * segment also addresses an array element, negative ones from the end, as
+ * with PostgreSQL's `#>`.
+ */
+export type PayloadKey = string | string[];
+
+/**
+ * JSONB column a leaf filter reads from. Omitted on a FilterNode means 'payload'.
+ */
+export type FilterSource = 'payload' | 'metadata';
+
 export type FilterNode =
-  | { kind: 'attr'; key: string; value: unknown }
+  | { kind: 'attr'; key: PayloadKey; value: unknown; source?: FilterSource }
+  | { kind: 'range'; key: PayloadKey; op: RangeOperator; valueType: RangeValueType; value: number | string; source?: FilterSource }
+  | { kind: 'in'; key: PayloadKey; values: unknown[]; source?: FilterSource }
+  | { kind: 'contains'; key: PayloadKey; values: unknown[]; source?: FilterSource }
+  | { kind: 'between'; key: PayloadKey; valueType: RangeValueType; from: number | string; to: number | string; source?: FilterSource }
+  | { kind: 'exists'; key: PayloadKey; source?: FilterSource }
+  | { kind: 'tags'; tags: string[] }
+  | { kind: 'not';  filter: FilterNode }
   | { kind: 'and';  filters: FilterNode[] }
   | { kind: 'or';   filters: FilterNode[] };
 
 export interface Clause {
-  type: string;
+  /** Event type, or a list of event types matched together (`type = ANY(...)`). */
+  type: string | string[];
+  /** When true, `type` is a prefix: the clause matches every event type starting with it. */
+  prefix?: boolean;
   filter: FilterNode | null;
 }
 
+/**
+ * Query-wide restrictions applied on top of the clauses (AND).
+ * Positions: after is exclusive, until is inclusive. Time: from inclusive, to exclusive.
+ */
+export interface QueryBounds {
+  afterPosition?: bigint;
+  untilPosition?: bigint;
+  occurredFrom?: Date;
+  occurredTo?: Date;
+}
+
 /**
  * Opaque query value passed to load() and append().
  * Built exclusively via the query DSL — do not construct directly.
+ *
+ * `TEvent` is the stored-event type load() and stream() return for a typed
+ * query; `unknown` (the default) means untyped.
  */
-export interface QueryDefinition {
+export interface QueryDefinition<TEvent = unknown> {
   readonly _clauses: readonly Clause[];
+  readonly _bounds?: QueryBounds | undefined;
+  /** Type-level only — never set at runtime. */
+  readonly _event?: TEvent;
 }
+
+// ---------------------------------------------------------------------------
+// Typed DSL helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Event map used when the DSL is not given one: any event type, payloads as
+ * plain records. A typed map looks like `{ StudentEnrolled: StudentEnrolledPayload }`.
+ */
+export type AnyEvents = Record<string, Record<string, unknown>>;
+
+/** Event type names of an event map. */
+export type EventType<E> = keyof E & string;
+
+/** Event types `T` as tracked by a query — widened to string for an untyped map. */
+export type SelectedType<E, T extends EventType<E>> = string extends EventType<E> ? string : T;
+
+/** Event type names of `E` starting with `P`; any string for an untyped map. */
+export type PrefixedEventType<E, P extends string> =
+  string extends EventType<E> ? string : Extract<EventType<E>, `${P}${string}`>;
+
+/** Payload shared by the event types `T` of `E` — only their common keys for a union. */
+export type PayloadOf<E, T extends EventType<E>> = string extends EventType<E> ? Record<string, unknown> : E[T];
+
+// Objects a dotted path may descend into — not arrays, Dates or unknown values
+type NestedObject<V> = unknown extends V
+  ? never
+  : V extends readonly unknown[] | Date
+    ? never
+    : V extends object
+      ? V
+      : never;
+
+type PathDepth = [never, 0, 1, 2, 3];
+
+/** Dotted key paths into payload `P`, up to four levels deep. */
+export type PayloadPath<P, D extends number = 4> = [D] extends [never]
+  ? never
+  : {
+      [K in keyof P & string]: [NestedObject<P[K]>] extends [never]
+        ? K
+        : K | `${K}.${PayloadPath<NestedObject<P[K]>, PathDepth[D]>}`;
+    }[keyof P & string];
+
+/** Type of the value at dotted path `K` in payload `P`; `unknown` when untyped. */
+export type PayloadValue<P, K extends string> = K extends keyof P
+  ? Exclude<P[K], undefined>
+  : K extends `${infer H}.${infer R}`
+    ? H extends keyof P
+      ? PayloadValue<NestedObject<P[H]>, R>
+      : unknown
+    : unknown;
@@ -0,0 +1,37 @@
+import { randomUUID } from 'node:crypto';
+import type { NewEvent } from '../types.js';
+
+/** COPY statement appendBulk() streams rows into, in the CSV form copyRow() writes. */
+export const COPY_EVENTS_SQL = 'COPY events (event_id, type, payload, metadata, tags) FROM STDIN WITH (FORMAT csv)';
+
+const ROWS_PER_CHUNK = 1000;
+
+function csvField(value: string): string {
+  return `"${value.replaceAll('"', '""')}"`;
+}
+
+function textArrayLiteral(items: readonly string[]): string {
+  return `{${items.map((item) => `"${item.replaceAll('\\', '\\\\').replaceAll('"', '\\"')}"`).join(',')}}`;
+}
+
+/**
+ * One CSV line for `event`; the unquoted empty metadata field is NULL. Every
+ * row fills event_id, so events without an id get a random one here.
+ */
+export function copyRow(event: NewEvent): string {
+  const metadata = event.metadata ?? null;
+  return [
+    csvField(event.eventId ?? randomUUID()),
+    csvField(event.type),
+    csvField(JSON.stringify(event.payload)),
+    metadata === null ? '' : csvField(JSON.stringify(metadata)),
+    csvField(textArrayLiteral(event.tags ?? [])),
+  ].join(',') + '\n';
+}
+
+/** COPY data for `events`, a thousand rows per chunk. */
+export function* copyChunks(events: readonly NewEvent[]): Generator<string> {
+  for (let i = 0; i < events.length; i += ROWS_PER_CHUNK) {
+    yield events.slice(i, i + ROWS_PER_CHUNK).map(copyRow).join('');
+  }
+}
@@ -1,36 +1,246 @@
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import pg from 'pg';
+import { from as copyFrom } from 'pg-copy-streams';
 import type { QueryDefinition } from '../query/types.js';
-import type { NewEvent, StoredEvent, LoadResult, AppendOptions, StreamOptions, EventStore } from '../types.js';
+import type {
+  NewEvent,
+  StoredEvent,
+  LoadResult,
+  LoadManyResult,
+  AppendOptions,
+  AppendCondition,
+  StreamOptions,
+  EventStore,
+  QueryEvent,
+  ExplainOptions,
+  ExplainResult,
+} from '../types.js';
 import { ConcurrencyError, EventStoreError } from '../errors.js';
-import { compileLoadQuery, compileVersionCheckQuery, compileCanonicalKey, compileStreamQuery } from '../query/compiler.js';
+import {
+  compileLoadQuery,
+  compileVersionCheckQuery,
+  compileExistsQuery,
+  compileCountQuery,
+  compileStreamQuery,
+  compileBackwardStreamQuery,
+} from '../query/compiler.js';
 import { applySchema } from './schema.js';
 import { mapRow } from './row-mapper.js';
+import { summarizePlan, type ExplainOutput } from './explain.js';
+import { StatementCache } from './statement-cache.js';
+import { lockSet } from './lock-set.js';
+import { COPY_EVENTS_SQL, copyChunks } from './copy-rows.js';
 
 export interface EventStoreConfig {
   pool: pg.Pool;
+  /** Create a GIN index on metadata in initializeSchema() to speed up metadata filters. */
+  metadataIndex?: boolean;
+  /**
+   * Run queries as named prepared statements, one per query shape, so PostgreSQL
+   * parses and plans each shape once per connection. Default: false.
+   * `maxStatements` bounds the shapes kept prepared (LRU, default: 100).
+   */
+  preparedStatements?: boolean | { maxStatements?: number };
+}
+
+const DEFAULT_MAX_PREPARED_STATEMENTS = 100;
+
+// Locks are taken in hash order, so two appends never wait on each other in a cycle
+const ACQUIRE_LOCKS_SQL = `
+SELECT CASE WHEN l.exclusive
+         THEN pg_advisory_xact_lock(hashtextextended(l.key, 0))
+         ELSE pg_advisory_xact_lock_shared(hashtextextended(l.key, 0))
+       END
+FROM unnest($1::text[], $2::boolean[]) AS l(key, exclusive)
+ORDER BY hashtextextended(l.key, 0)
+`.trim();
+
+// Rows are numbered so positions follow the order of the events passed in
+const INSERT_EVENTS_SQL = `
+INSERT INTO events (event_id, type, payload, metadata, tags)
+SELECT COALESCE(e.event_id, gen_random_uuid()), e.type, e.payload, e.metadata, ARRAY(SELECT jsonb_array_elements_text(e.tags))
+FROM unnest($1::uuid[], $2::text[], $3::jsonb[], $4::jsonb[], $5::jsonb[])
+  WITH ORDINALITY AS e(event_id, type, payload, metadata, tags, ord)
+ORDER BY e.ord
+RETURNING global_position, event_id, type, payload, metadata, tags, occurred_at
+`.trim();
+
+const SELECT_BY_EVENT_ID_SQL = `
+SELECT global_position, event_id, type, payload, metadata, tags, occurred_at
+FROM events
+WHERE event_id = ANY($1::uuid[])
+`.trim();
+
+/** INSERT_EVENTS_SQL parameters: one array per column, JSON values as text. */
+function insertParams(events: readonly NewEvent[]): unknown[] {
+  return [
+    events.map((e) => e.eventId ?? null),
+    events.map((e) => e.type),
+    events.map((e) => JSON.stringify(e.payload)),
+    events.map((e) => ((e.metadata ?? null) === null ? null : JSON.stringify(e.metadata))),
+    events.map((e) => JSON.stringify(e.tags ?? [])),
+  ];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Client-supplied event ids, lower-cased as PostgreSQL returns them; throws on malformed or repeated ids. */
+function suppliedEventIds(events: readonly NewEvent[]): string[] {
+  const ids = new Set<string>();
+  for (const { eventId } of events) {
+    if (eventId === undefined) continue;
+    if (!UUID_PATTERN.test(eventId)) {
+      throw new Error(`eventId must be a UUID, got '${eventId}'`);
+    }
+    const id = eventId.toLowerCase();
+    if (ids.has(id)) {
+      throw new Error(`eventId '${eventId}' appears more than once`);
+    }
+    ids.add(id);
+  }
+  return [...ids];
+}
+
+type AppendConditions = AppendOptions | AppendCondition | ReadonlyArray<AppendOptions | AppendCondition>;
+
+/**
+ * What append() checks: no event matching `query` after `after` — or, for
+ * AppendOptions, the newest matching event exactly at `after`.
+ */
+interface VersionCheck {
+  query: QueryDefinition;
+  after: bigint;
+  exact: boolean;
+}
+
+function isConditionList(condition: AppendConditions | undefined): condition is ReadonlyArray<AppendOptions | AppendCondition> {
+  return Array.isArray(condition);
+}
+
+function versionChecksFor(condition: AppendConditions | undefined): { checks: VersionCheck[]; several: boolean } {
+  const several = isConditionList(condition);
+  const conditions = several ? condition : condition === undefined ? [] : [condition];
+  return { checks: conditions.map(versionCheckFor), several };
+}
+
+function versionCheckFor(condition: AppendOptions | AppendCondition): VersionCheck {
+  if ('failIfEventsMatch' in condition) {
+    return { query: condition.failIfEventsMatch, after: condition.after ?? 0n, exact: false };
+  }
+  return { query: condition.concurrencyQuery ?? condition.query, after: condition.expectedVersion, exact: true };
+}
+
+function versionConflict(check: VersionCheck, actualVersion: bigint, conditionIndex: number | undefined): ConcurrencyError {
+  if (check.exact) return new ConcurrencyError(check.after, actualVersion, undefined, conditionIndex);
+  const condition = conditionIndex === undefined ? 'Append condition' : `Append condition ${conditionIndex}`;
+  return new ConcurrencyError(
+    check.after,
+    actualVersion,
+    `${condition} failed: an event matching failIfEventsMatch exists at position ${actualVersion}, after ${check.after}`,
+    conditionIndex,
+  );
+}
+
+/** Equality of JSON values as jsonb compares them: object key order does not matter. */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a)) {
+    return Array.isArray(b) && a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+  }
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null && !Array.isArray(b)) {
+    const aEntries = Object.entries(a);
+    return aEntries.length === Object.keys(b).length
+      && aEntries.every(([k, v]) => Object.hasOwn(b, k) && jsonEqual(v, (b as Record<string, unknown>)[k]));
+  }
+  return a === b;
+}
+
+/** Whether `stored` holds what appending `event` writes, compared after the same JSON round trip. */
+function sameEvent(event: NewEvent, stored: StoredEvent): boolean {
+  const written = JSON.parse(JSON.stringify({ payload: event.payload, metadata: event.metadata ?? null })) as {
+    payload: unknown;
+    metadata: unknown;
+  };
+  return event.type === stored.type
+    && jsonEqual(written.payload, stored.payload)
+    && jsonEqual(written.metadata, stored.metadata)
+    && jsonEqual(event.tags ?? [], stored.tags);
+}
+
+/**
+ * The stored events a retried append returns, in the order passed in. Every
+ * event must carry an id and all of them must be stored — a batch that only
+ * partly repeats an earlier one is not a retry — and each stored event must
+ * have the type, payload, metadata and tags passed in: an id reused for a
+ * different event is an error, not a retry.
+ */
+function storedForRetry(events: readonly NewEvent[], existing: StoredEvent[]): StoredEvent[] {
+  const byId = new Map(existing.map((e) => [e.eventId, e]));
+  const stored = events.map((e) => (e.eventId === undefined ? undefined : byId.get(e.eventId.toLowerCase())));
+  if (stored.includes(undefined)) {
+    throw new EventStoreError(
+      `Failed to append events: ${existing.length} of ${events.length} events are already stored (${[...byId.keys()].join(', ')})`
+    );
+  }
+  const changed = events.findIndex((e, i) => !sameEvent(e, stored[i]!));
+  if (changed !== -1) {
+    throw new EventStoreError(
+      `Failed to append events: event ${stored[changed]!.eventId} is already stored with a different type, payload, metadata or tags`
+    );
+  }
+  return stored as StoredEvent[];
+}
+
+/** lock_not_available (lock_timeout expired) or deadlock_detected. */
+function isLockConflict(err: unknown): boolean {
+  const code = (err as { code?: unknown } | null)?.code;
+  return code === '55P03' || code === '40P01';
+}
+
+/**
+ * pg's record of the named statements it parsed on a client's connection. It
+ * is not part of pg's typed API: undefined where it is missing, e.g. on test
+ * doubles, in which case a statement counts as parsed once it was sent.
+ */
+function parsedStatements(client: pg.PoolClient): Record<string, string> | undefined {
+  const connection = (client as { connection?: { parsedStatements?: Record<string, string> } }).connection;
+  return connection?.parsedStatements;
+}
+
+function statementCacheFor(option: EventStoreConfig['preparedStatements']): StatementCache | null {
+  if (option === undefined || option === false) return null;
+  const maxStatements = option === true ? DEFAULT_MAX_PREPARED_STATEMENTS : option.maxStatements ?? DEFAULT_MAX_PREPARED_STATEMENTS;
+  if (!Number.isInteger(maxStatements) || maxStatements < 1) {
+    throw new Error(`preparedStatements.maxStatements must be a positive integer, got ${maxStatements}`);
+  }
+  return new StatementCache(maxStatements);
 }
 
 export class PostgresEventStore implements EventStore {
   private readonly pool: pg.Pool;
+  private readonly metadataIndex: boolean;
+  private readonly statements: StatementCache | null;
 
   constructor(config: EventStoreConfig) {
     this.pool = config.pool;
+    this.metadataIndex = config.metadataIndex ?? false;
+    this.statements = statementCacheFor(config.preparedStatements);
   }
 
   async initializeSchema(): Promise<void> {
     const client = await this.pool.connect();
     try {
-      await applySchema(client);
+      await applySchema(client, { metadataIndex: this.metadataIndex });
     } finally {
       client.release();
     }
   }
 
-  async load(query: QueryDefinition): Promise<LoadResult> {
+  async load<Q extends QueryDefinition>(query: Q): Promise<LoadResult<QueryEvent<Q>>> {
     const { sql, params } = compileLoadQuery(query);
     let result: pg.QueryResult;
     try {
-      result = await this.pool.query(sql, params as unknown[]);
+      result = await this.read(sql, params);
     } catch (err) {
       throw new EventStoreError(`Failed to load events: ${String(err)}`, err);
     }
@@ -38,62 +248,133 @@ export class PostgresEventStore implements EventStore {
     const version: bigint = events.length > 0
       ? events[events.length - 1]!.globalPosition
       : 0n;
-    return { events, version };
+    // Typed queries only narrow the static type — rows are not validated
+    return { events: events as QueryEvent<Q>[], version };
+  }
+
+  async loadLast<Q extends QueryDefinition>(query: Q, n: number): Promise<LoadResult<QueryEvent<Q>>> {
+    if (!Number.isInteger(n) || n < 0) {
+      throw new Error(`loadLast() requires a non-negative integer, got ${n}`);
+    }
+    // n = 0 still reads one row so the version is right
+    const { sql, params } = compileBackwardStreamQuery(query, null, Math.max(n, 1));
+    let result: pg.QueryResult;
+    try {
+      result = await this.read(sql, params);
+    } catch (err) {
+      throw new EventStoreError(`Failed to load events: ${String(err)}`, err);
+    }
+    // Rows arrive newest first; return them in position order like load()
+    const events: StoredEvent[] = result.rows.map(mapRow).reverse();
+    // The newest matching event is always among the last n, so this is the query's full version
+    const version: bigint = events.length > 0
+      ? events[events.length - 1]!.globalPosition
+      : 0n;
+    return { events: (n === 0 ? [] : events) as QueryEvent<Q>[], version };
+  }
+
+  /**
+   * Loads several queries on one connection inside a REPEATABLE READ
+   * transaction, so every result — and every version — reflects the same snapshot.
+   */
+  async loadMany<M extends Record<string, QueryDefinition>>(queries: M): Promise<LoadManyResult<M>> {
+    const results: Record<string, LoadResult> = {};
+    const keys = Object.keys(queries);
+    if (keys.length === 0) return results as LoadManyResult<M>;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+      for (const key of keys) {
+        const { sql, params } = compileLoadQuery(queries[key]!);
+        const result: pg.QueryResult = await this.execute(client, sql, params);
+        const events: StoredEvent[] = result.rows.map(mapRow);
+        const version: bigint = events.length > 0
+          ? events[events.length - 1]!.globalPosition
+          : 0n;
+        results[key] = { events, version };
+      }
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw new EventStoreError(`Failed to load events: ${String(err)}`, err);
+    } finally {
+      client.release();
+    }
+    // Typed queries only narrow the static type — rows are not validated
+    return results as LoadManyResult<M>;
+  }
+
+  async exists(query: QueryDefinition): Promise<boolean> {
+    const { sql, params } = compileExistsQuery(query);
+    let result: pg.QueryResult<{ found: boolean }>;
+    try {
+      result = await this.read(sql, params);
+    } catch (err) {
+      throw new EventStoreError(`Failed to check for events: ${String(err)}`, err);
+    }
+    return result.rows[0]!.found;
+  }
+
+  async count(query: QueryDefinition): Promise<number> {
+    const { sql, params } = compileCountQuery(query);
+    let result: pg.QueryResult<{ count: string }>;
+    try {
+      result = await this.read(sql, params);
+    } catch (err) {
+      throw new EventStoreError(`Failed to count events: ${String(err)}`, err);
+    }
+    // COUNT(*) is a bigint, which pg returns as a string
+    return Number(result.rows[0]!.count);
   }
 
-  async append(events: NewEvent | NewEvent[], options?: AppendOptions): Promise<StoredEvent[]> {
+  async headPosition(): Promise<bigint> {
+    let result: pg.QueryResult<{ head: string }>;
+    try {
+      result = await this.read('SELECT COALESCE(MAX(global_position), 0) AS head FROM events', []);
+    } catch (err) {
+      throw new EventStoreError(`Failed to read head position: ${String(err)}`, err);
+    }
+    return BigInt(result.rows[0]!.head);
+  }
+
+  async append(events: NewEvent | NewEvent[], condition?: AppendConditions): Promise<StoredEvent[]> {
     const eventList = Array.isArray(events) ? events : [events];
+    const eventIds = suppliedEventIds(eventList);
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
 
-      if (options !== undefined) {
-        // Set session-local timeouts (reset automatically on COMMIT/ROLLBACK)
-        await client.query("SET LOCAL lock_timeout = '5s'");
-        await client.query("SET LOCAL statement_timeout = '30s'");
-
-        // Acquire per-stream advisory lock (non-blocking)
-        const concurrencyTarget = options.concurrencyQuery ?? options.query;
-        const canonicalKey = compileCanonicalKey(concurrencyTarget);
-        const lockResult = await client.query<{ acquired: boolean }>(
-          'SELECT pg_try_advisory_xact_lock(hashtext($1)) AS acquired',
-          [canonicalKey]
-        );
-        const acquired = lockResult.rows[0]!.acquired;
-        if (!acquired) {
-          await client.query('ROLLBACK');
-          throw new ConcurrencyError(
-            options.expectedVersion,
-            options.expectedVersion,
-            'Advisory lock could not be acquired — another writer holds the lock'
-          );
-        }
+      // Set session-local timeouts (reset automatically on COMMIT/ROLLBACK)
+      await client.query("SET LOCAL lock_timeout = '5s'");
+      await client.query("SET LOCAL statement_timeout = '30s'");
+
+      const { checks, several } = versionChecksFor(condition);
+      await this.acquireLocks(client, checks, eventList);
 
-        // Version check
-        const { sql: versionSql, params: versionParams } = compileVersionCheckQuery(concurrencyTarget);
-        const versionResult = await client.query<{ max_pos: string }>(versionSql, versionParams as unknown[]);
-        const actualVersion = BigInt(versionResult.rows[0]!.max_pos);
-        if (actualVersion !== options.expectedVersion) {
+      // A retry of stored events: return them before their own positions fail the conditions
+      if (eventIds.length > 0) {
+        const existing: pg.QueryResult = await this.execute(client, SELECT_BY_EVENT_ID_SQL, [eventIds]);
+        if (existing.rows.length > 0) {
           await client.query('ROLLBACK');
-          throw new ConcurrencyError(options.expectedVersion, actualVersion);
+          return storedForRetry(eventList, existing.rows.map(mapRow));
         }
       }
 
-      // Insert all events
+      await this.checkVersions(client, checks, several);
+
+      // Insert all events in one statement
       const stored: StoredEvent[] = [];
-      for (const event of eventList) {
-        const sql = `INSERT INTO events (type, payload, metadata)
-        VALUES ($1, $2::jsonb, $3::jsonb)
-        RETURNING global_position, event_id, type, payload, metadata, occurred_at`.trim();
-        const params = [event.type, event.payload, event.metadata ?? null];
+      if (eventList.length > 0) {
         let result: pg.QueryResult;
         try {
-          result = await client.query(sql, params);
+          result = await this.execute(client, INSERT_EVENTS_SQL, insertParams(eventList));
         } catch (err) {
           await client.query('ROLLBACK');
           throw new EventStoreError(`Failed to append event: ${String(err)}`, err);
         }
-        stored.push(mapRow(result.rows[0]!));
+        // RETURNING order is not guaranteed; positions are, so sort by them
+        stored.push(...result.rows.map(mapRow).sort((a, b) => (a.globalPosition < b.globalPosition ? -1 : 1)));
       }
 
       await client.query('COMMIT');
@@ -109,7 +390,80 @@ export class PostgresEventStore implements EventStore {
     }
   }
 
-  async *stream(query: QueryDefinition, options: StreamOptions = {}): AsyncGenerator<StoredEvent> {
+  /**
+   * Appends events with COPY — for imports too large for append(). Takes the
+   * same locks and checks the same conditions, then streams the events in one
+   * transaction. Positions follow the order of `events`; returns how many were
+   * written rather than the stored events. Unlike append(), ids already stored
+   * fail the import.
+   */
+  async appendBulk(events: readonly NewEvent[], condition?: AppendConditions): Promise<number> {
+    suppliedEventIds(events);
+    if (events.length === 0) return 0;
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      // No statement_timeout: the COPY runs as long as the import needs
+      await client.query("SET LOCAL lock_timeout = '5s'");
+
+      const { checks, several } = versionChecksFor(condition);
+      await this.acquireLocks(client, checks, events);
+      await this.checkVersions(client, checks, several);
+
+      const copy = client.query(copyFrom(COPY_EVENTS_SQL));
+      await pipeline(Readable.from(copyChunks(events)), copy);
+
+      await client.query('COMMIT');
+      return copy.rowCount;
+    } catch (err) {
+      if (err instanceof ConcurrencyError) throw err;
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw new EventStoreError(`Failed to bulk append events: ${String(err)}`, err);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Takes the lock set of the checks and `events`; rolls back and throws
+   * ConcurrencyError when an overlapping writer holds its locks too long.
+   */
+  private async acquireLocks(client: pg.PoolClient, checks: VersionCheck[], events: readonly NewEvent[]): Promise<void> {
+    // Wait for every append whose conditions or events overlap with this one
+    const locks = lockSet(checks.map((c) => c.query), events);
+    if (locks.length === 0) return;
+    try {
+      await client.query(ACQUIRE_LOCKS_SQL, [locks.map((l) => l.key), locks.map((l) => l.exclusive)]);
+    } catch (err) {
+      if (checks.length === 0 || !isLockConflict(err)) throw err;
+      await client.query('ROLLBACK');
+      throw new ConcurrencyError(
+        checks[0]!.after,
+        checks[0]!.after,
+        'Advisory locks could not be acquired — a concurrent writer held them too long'
+      );
+    }
+  }
+
+  /** Runs each version check; rolls back and throws ConcurrencyError when one fails. */
+  private async checkVersions(client: pg.PoolClient, checks: VersionCheck[], several: boolean): Promise<void> {
+    // All under the locks taken before, so they hold together at COMMIT
+    for (const [index, check] of checks.entries()) {
+      const { sql: versionSql, params: versionParams } = compileVersionCheckQuery(check.query);
+      const versionResult = await this.execute<{ max_pos: string }>(client, versionSql, versionParams);
+      const actualVersion = BigInt(versionResult.rows[0]!.max_pos);
+      if (check.exact ? actualVersion !== check.after : actualVersion > check.after) {
+        await client.query('ROLLBACK');
+        throw versionConflict(check, actualVersion, several ? index : undefined);
+      }
+    }
+  }
+
+  async *stream<Q extends QueryDefinition>(query: Q, options: StreamOptions = {}): AsyncGenerator<QueryEvent<Q>> {
+    if (options.direction === 'backward') {
+      yield* this.streamBackward(query, options);
+      return;
+    }
     const batchSize = options.batchSize ?? 100;
     let lastPosition = options.afterPosition ?? 0n;
 
@@ -117,14 +471,14 @@ export class PostgresEventStore implements EventStore {
       const { sql, params } = compileStreamQuery(query, lastPosition, batchSize);
       let result: pg.QueryResult;
       try {
-        result = await this.pool.query(sql, params as unknown[]);
+        result = await this.read(sql, params);
       } catch (err) {
         throw new EventStoreError(`Failed to stream events: ${String(err)}`, err);
       }
 
       for (const row of result.rows) {
         const event = mapRow(row);
-        yield event;
+        yield event as QueryEvent<Q>;
         lastPosition = event.globalPosition;
       }
 
@@ -132,6 +486,83 @@ export class PostgresEventStore implements EventStore {
     }
   }
 
+  private async *streamBackward<Q extends QueryDefinition>(query: Q, options: StreamOptions): AsyncGenerator<QueryEvent<Q>> {
+    const batchSize = options.batchSize ?? 100;
+    let lastPosition: bigint | null = options.beforePosition ?? null;
+
+    while (true) {
+      const { sql, params } = compileBackwardStreamQuery(query, lastPosition, batchSize);
+      let result: pg.QueryResult;
+      try {
+        result = await this.read(sql, params);
+      } catch (err) {
+        throw new EventStoreError(`Failed to stream events: ${String(err)}`, err);
+      }
+
+      for (const row of result.rows) {
+        const event = mapRow(row);
+        yield event as QueryEvent<Q>;
+        lastPosition = event.globalPosition;
+      }
+
+      if (result.rowCount === null || result.rowCount < batchSize) break;
+    }
+  }
+
+  /**
+   * Runs EXPLAIN on the SQL a query compiles to and summarises the plan.
+   * With `analyze` the statement is executed, so it takes as long as the real read.
+   */
+  async explain(query: QueryDefinition, options: ExplainOptions = {}): Promise<ExplainResult> {
+    const form = options.form ?? 'load';
+    const { sql, params } = form === 'versionCheck'
+      ? compileVersionCheckQuery(query)
+      : form === 'stream'
+        ? compileStreamQuery(query, 0n, options.batchSize ?? 100)
+        : compileLoadQuery(query);
+    const explainOptions = options.analyze === true ? 'ANALYZE, FORMAT JSON' : 'FORMAT JSON';
+    let result: pg.QueryResult<{ 'QUERY PLAN': ExplainOutput[] }>;
+    try {
+      result = await this.pool.query(`EXPLAIN (${explainOptions}) ${sql}`, params as unknown[]);
+    } catch (err) {
+      throw new EventStoreError(`Failed to explain query: ${String(err)}`, err);
+    }
+    return summarizePlan(sql, params, result.rows[0]!['QUERY PLAN'][0]!);
+  }
+
+  /** Runs a read on any pooled connection, as a prepared statement when enabled. */
+  private async read<R extends pg.QueryResultRow>(sql: string, params: unknown[]): Promise<pg.QueryResult<R>> {
+    if (this.statements === null) return this.pool.query<R>(sql, params);
+    const client = await this.pool.connect();
+    try {
+      return await this.execute<R>(client, sql, params);
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Runs a statement on `client`, as a prepared statement when enabled. */
+  private async execute<R extends pg.QueryResultRow>(
+    client: pg.PoolClient,
+    sql: string,
+    params: unknown[],
+  ): Promise<pg.QueryResult<R>> {
+    if (this.statements === null) return client.query<R>(sql, params);
+    // Naming first lets a statement evicted by this very call be dropped right away
+    const name = this.statements.nameFor(sql);
+    const parsed = parsedStatements(client);
+    for (const evicted of this.statements.takeEvicted(client)) {
+      await client.query(`DEALLOCATE ${evicted}`);
+      delete parsed?.[evicted];
+    }
+    try {
+      return await client.query<R>({ name, text: sql, values: params });
+    } finally {
+      // Parse may succeed while the execution fails (lock_timeout, a constraint); the statement exists then
+      if (parsed === undefined || Object.hasOwn(parsed, name)) this.statements.markPrepared(client, name);
+    }
+  }
+
   async close(): Promise<void> {
     await this.pool.end();
   }
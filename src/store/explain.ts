@@ -0,0 +1,61 @@
+import type { ExplainResult } from '../types.js';
+
+/** One node of EXPLAIN (FORMAT JSON) output — only the fields read here. */
+export interface PlanNode {
+  'Node Type': string;
+  'Relation Name'?: string;
+  'Index Name'?: string;
+  'Index Cond'?: string;
+  'Plan Rows': number;
+  'Actual Rows'?: number;
+  'Actual Loops'?: number;
+  Plans?: PlanNode[];
+}
+
+/** First element of the array EXPLAIN (FORMAT JSON) returns. */
+export interface ExplainOutput {
+  Plan: PlanNode;
+  'Execution Time'?: number;
+}
+
+function walk(node: PlanNode, visit: (node: PlanNode) => void): void {
+  visit(node);
+  for (const child of node.Plans ?? []) walk(child, visit);
+}
+
+/**
+ * Reduces a JSON plan to the indexes it uses, its row estimate and warnings
+ * about scans that read the whole table.
+ */
+export function summarizePlan(sql: string, params: unknown[], output: ExplainOutput): ExplainResult {
+  const indexes = new Set<string>();
+  const warnings: string[] = [];
+
+  walk(output.Plan, (node) => {
+    const relation = node['Relation Name'] ?? 'unknown relation';
+    const index = node['Index Name'];
+    if (node['Node Type'] === 'Seq Scan') {
+      warnings.push(`Sequential scan on ${relation}`);
+    }
+    if (index === undefined) return;
+    indexes.add(index);
+    // An index scan without a condition only provides order — it still reads every row
+    if (node['Index Cond'] === undefined) {
+      warnings.push(`Full scan of ${relation} through ${index} (no index condition)`);
+    }
+  });
+
+  const result: ExplainResult = {
+    sql,
+    params,
+    indexes: [...indexes],
+    estimatedRows: output.Plan['Plan Rows'],
+    warnings,
+    plan: output,
+  };
+  if (output.Plan['Actual Rows'] !== undefined) {
+    result.actualRows = output.Plan['Actual Rows'] * (output.Plan['Actual Loops'] ?? 1);
+  }
+  if (output['Execution Time'] !== undefined) result.executionTimeMs = output['Execution Time'];
+  return result;
+}
@@ -0,0 +1,155 @@
+import type { Clause, FilterNode, QueryDefinition } from '../query/types.js';
+import type { NewEvent } from '../types.js';
+
+/** One transaction-scoped advisory lock taken by append(). */
+export interface LockRequest {
+  /** Lock key text; PostgreSQL hashes it with hashtextextended() into the 64-bit lock space. */
+  key: string;
+  /** Exclusive locks conflict with every lock on the key, shared locks only with exclusive ones. */
+  exclusive: boolean;
+}
+
+/**
+ * Distinct value, tag and event id keys one append may lock before falling back to an
+ * exclusive lock per event type — bounds the lock table entries of bulk appends.
+ */
+export const MAX_EVENT_VALUE_LOCKS = 64;
+
+const ANY_TYPE_KEY = JSON.stringify(['any']);
+
+function typeKey(type: string): string {
+  return JSON.stringify(['type', type]);
+}
+
+function valueKey(type: string, key: string, value: unknown): string {
+  return JSON.stringify(['value', type, key, value]);
+}
+
+function tagKey(type: string, tag: string): string {
+  return JSON.stringify(['tag', type, tag]);
+}
+
+function eventIdKey(eventId: string): string {
+  return JSON.stringify(['event', eventId.toLowerCase()]);
+}
+
+/** JSON form of `value` (Dates become strings) when it is a scalar, else undefined. */
+function jsonScalar(value: unknown): string | number | boolean | null | undefined {
+  if (value === undefined) return undefined;
+  const json: unknown = JSON.parse(JSON.stringify(value) ?? 'null');
+  return json === null || typeof json !== 'object' ? (json as string | number | boolean | null) : undefined;
+}
+
+function topLevelKey(key: string | string[]): string | undefined {
+  if (typeof key === 'string') return key;
+  return key.length === 1 ? key[0] : undefined;
+}
+
+/**
+ * Keys every event of `type` matching `node` is guaranteed to lock, or null
+ * when the filter does not pin a top-level scalar value or a tag.
+ */
+function narrowingKeys(type: string, node: FilterNode): string[] | null {
+  switch (node.kind) {
+    case 'attr': {
+      const key = topLevelKey(node.key);
+      const value = jsonScalar(node.value);
+      if (node.source === 'metadata' || key === undefined || value === undefined) return null;
+      return [valueKey(type, key, value)];
+    }
+    case 'in': {
+      const key = topLevelKey(node.key);
+      const values = node.values.map(jsonScalar);
+      if (node.source === 'metadata' || key === undefined || values.includes(undefined)) return null;
+      return values.map((value) => valueKey(type, key, value));
+    }
+    case 'tags':
+      // A match carries every tag, so locking one of them is enough
+      return node.tags.length > 0 ? [tagKey(type, node.tags[0]!)] : null;
+    case 'and':
+      for (const child of node.filters) {
+        const keys = narrowingKeys(type, child);
+        if (keys !== null) return keys;
+      }
+      return null;
+    case 'or': {
+      const keys: string[] = [];
+      for (const child of node.filters) {
+        const childKeys = narrowingKeys(type, child);
+        if (childKeys === null) return null;
+        keys.push(...childKeys);
+      }
+      return keys;
+    }
+    default:
+      return null;
+  }
+}
+
+function conditionLocks(clause: Clause, add: (key: string, exclusive: boolean) => void): void {
+  // A prefix can match types no event names yet, so it conflicts with every append
+  if (clause.prefix === true) {
+    add(ANY_TYPE_KEY, true);
+    return;
+  }
+  for (const type of typeof clause.type === 'string' ? [clause.type] : clause.type) {
+    const keys = clause.filter === null ? null : narrowingKeys(type, clause.filter);
+    add(typeKey(type), keys === null);
+    for (const key of keys ?? []) add(key, true);
+  }
+}
+
+/**
+ * Advisory locks an append takes, derived from its condition queries and the
+ * events it inserts. Whenever an inserted event could match one of another
+ * append's conditions, the two lock sets share a key that at least one side holds
+ * exclusively, so the appends run one after the other:
+ *
+ * - a condition clause locks its types shared plus the value or tag keys its
+ *   filter pins exclusively, or its types exclusively when the filter pins
+ *   none; prefix clauses lock a key every append shares, exclusively;
+ * - an event locks its type and every top-level scalar payload value and tag
+ *   of it shared, and its client-supplied event id exclusively.
+ *
+ * Events alone only conflict through a shared event id, so appends without a
+ * condition never block each other otherwise. Conditions pinning the same
+ * value wait for each other even when their events are unrelated.
+ */
+export function lockSet(conditions: readonly QueryDefinition[], events: readonly NewEvent[]): LockRequest[] {
+  const locks = new Map<string, boolean>();
+  const add = (key: string, exclusive: boolean): void => {
+    locks.set(key, exclusive || locks.get(key) === true);
+  };
+
+  for (const condition of conditions) {
+    for (const clause of condition._clauses) conditionLocks(clause, add);
+  }
+
+  const eventTypes = new Set<string>();
+  const valueKeys = new Set<string>();
+  const eventIdKeys = new Set<string>();
+  for (const event of events) {
+    eventTypes.add(event.type);
+    const payload: unknown = JSON.parse(JSON.stringify(event.payload) ?? 'null');
+    if (payload !== null && typeof payload === 'object' && !Array.isArray(payload)) {
+      for (const [key, value] of Object.entries(payload)) {
+        const scalar = jsonScalar(value);
+        if (scalar !== undefined) valueKeys.add(valueKey(event.type, key, scalar));
+      }
+    }
+    for (const tag of event.tags ?? []) valueKeys.add(tagKey(event.type, tag));
+    // Serialises retries of the same events, whatever their payloads
+    if (event.eventId !== undefined) eventIdKeys.add(eventIdKey(event.eventId));
+  }
+
+  if (events.length > 0) add(ANY_TYPE_KEY, false);
+  // Too many keys: lock the types exclusively instead, which every condition on them and every retry conflicts with
+  const coarse = valueKeys.size + eventIdKeys.size > MAX_EVENT_VALUE_LOCKS;
+  for (const type of eventTypes) add(typeKey(type), coarse);
+  if (!coarse) {
+    for (const key of valueKeys) add(key, false);
+    for (const key of eventIdKeys) add(key, true);
+  }
+
+  return [...locks.keys()].sort().map((key) => ({ key, exclusive: locks.get(key)! }));
+}
@@ -6,6 +6,7 @@ export interface EventRow {
   type: string;
   payload: Record<string, unknown>;   // pg auto-parses JSONB
   metadata: Record<string, unknown> | null;
+  tags: string[];                     // pg parses TEXT[] into an array
   occurred_at: Date;                  // pg auto-parses TIMESTAMPTZ
 }
 
@@ -16,6 +17,7 @@ export function mapRow(row: EventRow): StoredEvent {
     type: row.type,
     payload: row.payload,
     metadata: row.metadata,
+    tags: row.tags,
     occurredAt: row.occurred_at,
   };
 }
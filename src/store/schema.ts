@@ -7,10 +7,16 @@ CREATE TABLE IF NOT EXISTS events (
   type             VARCHAR(255) NOT NULL,
   payload          JSONB        NOT NULL,
   metadata         JSONB,
+  tags             TEXT[]       NOT NULL DEFAULT '{}',
   occurred_at      TIMESTAMPTZ  NOT NULL DEFAULT NOW()
 )
 `.trim();
 
+/** Adds the tags column to events tables created before tags existed. */
+export const DDL_ADD_TAGS_COLUMN = `
+ALTER TABLE events ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}'
+`.trim();
+
 export const DDL_CREATE_GIN_INDEX = `
 CREATE INDEX IF NOT EXISTS idx_events_payload_gin
   ON events USING GIN (payload jsonb_path_ops)
@@ -32,6 +38,16 @@ CREATE INDEX IF NOT EXISTS idx_events_occurred_at_brin
   WITH (pages_per_range = 128)
 `.trim();
 
+export const DDL_CREATE_TAGS_GIN_INDEX = `
+CREATE INDEX IF NOT EXISTS idx_events_tags_gin
+  ON events USING GIN (tags)
+`.trim();
+
+export const DDL_CREATE_METADATA_GIN_INDEX = `
+CREATE INDEX IF NOT EXISTS idx_events_metadata_gin
+  ON events USING GIN (metadata jsonb_path_ops)
+`.trim();
+
 export const DDL_TUNE_AUTOVACUUM = `
 ALTER TABLE events SET (
   autovacuum_vacuum_scale_factor  = 0.01,
@@ -40,11 +56,21 @@ ALTER TABLE events SET (
 )
 `.trim();
 
-export async function applySchema(client: pg.ClientBase): Promise<void> {
+export interface SchemaOptions {
+  /** Create idx_events_metadata_gin for metadata filters. Default: false. */
+  metadataIndex?: boolean;
+}
+
+export async function applySchema(client: pg.ClientBase, options: SchemaOptions = {}): Promise<void> {
   await client.query(DDL_CREATE_TABLE);
+  await client.query(DDL_ADD_TAGS_COLUMN);
   await client.query(DDL_CREATE_GIN_INDEX);
   await client.query(DDL_TUNE_GIN_INDEX);
   await client.query(DDL_CREATE_TYPE_POSITION_INDEX);
   await client.query(DDL_CREATE_BRIN_INDEX);
+  await client.query(DDL_CREATE_TAGS_GIN_INDEX);
+  if (options.metadataIndex === true) {
+    await client.query(DDL_CREATE_METADATA_GIN_INDEX);
+  }
   await client.query(DDL_TUNE_AUTOVACUUM);
 }
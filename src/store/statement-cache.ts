@@ -0,0 +1,63 @@
+/**
+ * LRU map from compiled SQL text to prepared-statement names.
+ *
+ * Compiled SQL contains no values, so the text identifies a query shape.
+ * pg prepares a named statement lazily on each connection that runs it; the
+ * cache remembers which names each connection prepared so that evicted
+ * statements can be DEALLOCATEd there the next time it is used. Names are
+ * never reused — not even by another store sharing the pool — since pg skips
+ * Parse for a name it has seen before on a connection. pg keeps those names in
+ * a per-connection map it never prunes, so the store deletes each name from it
+ * after DEALLOCATE; otherwise the map would grow with every shape re-prepared
+ * after an eviction for as long as the connection lives.
+ */
+let lastStatementId = 0;
+
+export class StatementCache {
+  private readonly names = new Map<string, string>();
+  private readonly live = new Set<string>();
+  private readonly prepared = new WeakMap<object, Set<string>>();
+
+  constructor(private readonly maxStatements: number) {}
+
+  /** Statement name for `sql`, marked as most recently used. */
+  nameFor(sql: string): string {
+    let name = this.names.get(sql);
+    if (name !== undefined) {
+      // Re-insert to move the entry to the end of the iteration order
+      this.names.delete(sql);
+    } else {
+      lastStatementId += 1;
+      name = `es_stmt_${lastStatementId}`;
+      this.live.add(name);
+    }
+    this.names.set(sql, name);
+
+    if (this.names.size > this.maxStatements) {
+      const [oldestSql, oldestName] = this.names.entries().next().value as [string, string];
+      this.names.delete(oldestSql);
+      this.live.delete(oldestName);
+    }
+    return name;
+  }
+
+  /** Records that `name` is now prepared on `connection`. */
+  markPrepared(connection: object, name: string): void {
+    const names = this.prepared.get(connection) ?? new Set<string>();
+    names.add(name);
+    this.prepared.set(connection, names);
+  }
+
+  /** Evicted names still prepared on `connection`; they are forgotten as they are returned. */
+  takeEvicted(connection: object): string[] {
+    const names = this.prepared.get(connection);
+    if (names === undefined) return [];
+    const evicted = [...names].filter((name) => !this.live.has(name));
+    for (const name of evicted) names.delete(name);
+    return evicted;
+  }
+
+  get size(): number {
+    return this.names.size;
+  }
+}
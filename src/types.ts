@@ -1,9 +1,16 @@
-import type { QueryDefinition } from './query/types.js';
+import type { EventType, QueryDefinition } from './query/types.js';
 
 export interface NewEvent<P = Record<string, unknown>> {
   type: string;
   payload: P;
   metadata?: Record<string, unknown>;
+  /** Labels such as 'course:c1', matched by `.where.taggedWith(...)`. */
+  tags?: string[];
+  /**
+   * UUID to store the event under instead of a generated one. Re-appending
+   * events whose ids are all stored already returns the stored events.
+   */
+  eventId?: string;
 }
 
 export interface StoredEvent<P = Record<string, unknown>> {
@@ -12,29 +19,101 @@ export interface StoredEvent<P = Record<string, unknown>> {
   type: string;
   payload: P;
   metadata: Record<string, unknown> | null;
+  tags: string[];
   occurredAt: Date;
 }
 
-export interface LoadResult {
-  events: StoredEvent[];
+/**
+ * A stored event of one of the types `T` of event map `E`, discriminated on
+ * `type`. For an untyped map it is a plain StoredEvent.
+ */
+export type TypedStoredEvent<E, T extends EventType<E>> = string extends EventType<E>
+  ? StoredEvent
+  : { [K in T]: StoredEvent<E[K]> & { type: K } }[T];
+
+/** Event type load() and stream() return for query `Q`. */
+export type QueryEvent<Q extends QueryDefinition> = Q extends QueryDefinition<infer TEvent>
+  ? unknown extends TEvent ? StoredEvent : TEvent
+  : StoredEvent;
+
+export interface LoadResult<TEvent = StoredEvent> {
+  events: TEvent[];
   version: bigint;
 }
 
+/** loadMany() result: one LoadResult per key of the queries passed in. */
+export type LoadManyResult<M extends Record<string, QueryDefinition>> = {
+  [K in keyof M]: LoadResult<QueryEvent<M[K]>>;
+};
+
+/**
+ * Version-based append check: the append fails unless the newest event
+ * matching `concurrencyQuery ?? query` is exactly at `expectedVersion`.
+ */
 export interface AppendOptions {
   query: QueryDefinition;
   expectedVersion: bigint;
   concurrencyQuery?: QueryDefinition;
 }
 
+/**
+ * Append condition as in the DCB specification: the append fails if any event
+ * matching `failIfEventsMatch` exists after position `after`.
+ */
+export interface AppendCondition {
+  failIfEventsMatch: QueryDefinition;
+  /** Exclusive; usually the version load() returned. Omitted: fail if any matching event exists. */
+  after?: bigint;
+}
+
 export interface StreamOptions {
   batchSize?: number;
+  /** Forward streams start after this position. */
   afterPosition?: bigint;
+  /** Backward streams start before this position (default: the newest event). */
+  beforePosition?: bigint;
+  /** 'forward' (default) yields oldest first, 'backward' newest first. */
+  direction?: 'forward' | 'backward';
+}
+
+export interface ExplainOptions {
+  /** Which compiled statement to explain (default: 'load'). */
+  form?: 'load' | 'versionCheck' | 'stream';
+  /** Run the statement with EXPLAIN ANALYZE for actual rows and timing (default: false). */
+  analyze?: boolean;
+  /** Page size for the 'stream' form (default: 100). */
+  batchSize?: number;
+}
+
+export interface ExplainResult {
+  sql: string;
+  params: unknown[];
+  /** Names of the indexes the plan uses, e.g. 'idx_events_type_position'. */
+  indexes: string[];
+  /** Planner estimate of the rows the statement returns. */
+  estimatedRows: number;
+  /** Rows actually returned — only with `analyze`. */
+  actualRows?: number;
+  /** Only with `analyze`. */
+  executionTimeMs?: number;
+  /** Scans that read the whole table, e.g. 'Sequential scan on events'. */
+  warnings: string[];
+  /** Raw EXPLAIN (FORMAT JSON) output. */
+  plan: unknown;
 }
 
 export interface EventStore {
-  load(query: QueryDefinition): Promise<LoadResult>;
-  append(events: NewEvent | NewEvent[], options?: AppendOptions): Promise<StoredEvent[]>;
-  stream(query: QueryDefinition, options?: StreamOptions): AsyncIterable<StoredEvent>;
+  load<Q extends QueryDefinition>(query: Q): Promise<LoadResult<QueryEvent<Q>>>;
+  loadLast<Q extends QueryDefinition>(query: Q, n: number): Promise<LoadResult<QueryEvent<Q>>>;
+  loadMany<M extends Record<string, QueryDefinition>>(queries: M): Promise<LoadManyResult<M>>;
+  exists(query: QueryDefinition): Promise<boolean>;
+  count(query: QueryDefinition): Promise<number>;
+  headPosition(): Promise<bigint>;
+  append(
+    events: NewEvent | NewEvent[],
+    condition?: AppendOptions | AppendCondition | ReadonlyArray<AppendOptions | AppendCondition>,
+  ): Promise<StoredEvent[]>;
+  stream<Q extends QueryDefinition>(query: Q, options?: StreamOptions): AsyncIterable<QueryEvent<Q>>;
   initializeSchema(): Promise<void>;
   close(): Promise<void>;
 }
@@ -0,0 +1,66 @@
+import { bench, describe, beforeAll, afterAll } from 'vitest';
+import pg from 'pg';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import type { NewEvent } from '../../src/types.js';
+import { createTestPool, resetDatabase } from './helpers.js';
+
+/**
+ * Append throughput for batches of 100 and 1000 events: one INSERT per event
+ * (append() before the multi-row insert), append() and appendBulk().
+ * Run with `npm run bench`.
+ */
+
+let pool: pg.Pool;
+let store: PostgresEventStore;
+let n = 0;
+
+function batch(size: number): NewEvent[] {
+  return Array.from({ length: size }, () => {
+    n += 1;
+    return {
+      type: 'StudentEnrolled',
+      payload: { studentId: `s${n}`, courseId: `c${n % 500}`, enrolledAt: '2024-09-01T00:00:00.000Z' },
+      tags: [`course:c${n % 500}`],
+    };
+  });
+}
+
+async function insertEach(events: NewEvent[]): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const event of events) {
+      await client.query(
+        `INSERT INTO events (type, payload, metadata, tags)
+         VALUES ($1, $2::jsonb, $3::jsonb, $4::text[])
+         RETURNING global_position, event_id, type, payload, metadata, tags, occurred_at`,
+        [event.type, event.payload, event.metadata ?? null, event.tags ?? []],
+      );
+    }
+    await client.query('COMMIT');
+  } finally {
+    client.release();
+  }
+}
+
+beforeAll(async () => {
+  pool = createTestPool();
+  store = new PostgresEventStore({ pool });
+  await resetDatabase(pool);
+});
+
+afterAll(async () => {
+  await pool?.end();
+});
+
+for (const size of [100, 1000]) {
+  describe(`${size} events`, () => {
+    bench('one INSERT per event', () => insertEach(batch(size)));
+    bench('append() — multi-row INSERT', async () => {
+      await store.append(batch(size));
+    });
+    bench('appendBulk() — COPY', async () => {
+      await store.appendBulk(batch(size));
+    });
+  });
+}
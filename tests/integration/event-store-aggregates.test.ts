@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import pg from 'pg';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import { query } from '../../src/query/query-object.js';
+import { createTestPool, resetDatabase, seedEvents } from './helpers.js';
+
+let pool: pg.Pool;
+let store: PostgresEventStore;
+
+beforeEach(async () => {
+  if (!pool) pool = createTestPool();
+  if (!store) store = new PostgresEventStore({ pool });
+  await resetDatabase(pool);
+});
+
+afterAll(async () => {
+  await pool?.end();
+});
+
+describe('PostgresEventStore aggregate helpers — integration', () => {
+  it('exists() is false on an empty store and for unmatched filters', async () => {
+    expect(await store.exists(query.eventsOfType('A'))).toBe(false);
+    await seedEvents(pool, [{ type: 'A', payload: { k: 1 } }]);
+    expect(await store.exists(query.eventsOfType('A'))).toBe(true);
+    expect(await store.exists(query.eventsOfType('A').where.key('k').equals(2))).toBe(false);
+  });
+
+  it('count() counts matching events across clauses and bounds', async () => {
+    await seedEvents(pool, [
+      { type: 'A', payload: { k: 1 } },
+      { type: 'B', payload: {} },
+      { type: 'A', payload: { k: 2 } },
+      { type: 'A', payload: { k: 1 } },
+    ]);
+    expect(await store.count(query.eventsOfType('A'))).toBe(3);
+    expect(await store.count(query.eventsOfType('A').where.key('k').equals(1).eventsOfType('B'))).toBe(3);
+    expect(await store.count(query.eventsOfType('A').untilPosition(3n))).toBe(2);
+    expect(await store.count(query.eventsOfType('C'))).toBe(0);
+  });
+
+  it('headPosition() is 0n on an empty store, then the last appended position', async () => {
+    expect(await store.headPosition()).toBe(0n);
+    const stored = await store.append([{ type: 'A', payload: {} }, { type: 'B', payload: {} }]);
+    expect(await store.headPosition()).toBe(stored[1]!.globalPosition);
+  });
+});
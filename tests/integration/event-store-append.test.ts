@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterAll } from 'vitest';
 import pg from 'pg';
 import { PostgresEventStore } from '../../src/store/event-store.js';
 import { query } from '../../src/query/query-object.js';
-import { EventStoreError } from '../../src/errors.js';
+import { ConcurrencyError, EventStoreError } from '../../src/errors.js';
 import { createTestPool, resetDatabase } from './helpers.js';
 
 let pool: pg.Pool;
@@ -47,6 +47,28 @@ describe('PostgresEventStore.append() (integration)', () => {
     expect((stored!.metadata as Record<string, unknown>)['correlationId']).toBe('corr-123');
   });
 
+  it('stores and returns tags, defaulting to an empty list', async () => {
+    const [tagged, untagged] = await store.append([
+      { type: 'X', payload: {}, tags: ['course:c1', 'student:s1'] },
+      { type: 'X', payload: {} },
+    ]);
+    expect(tagged!.tags).toEqual(['course:c1', 'student:s1']);
+    expect(untagged!.tags).toEqual([]);
+  });
+
+  it('loads events by tag across event types', async () => {
+    await store.append([
+      { type: 'CourseCreated', payload: {}, tags: ['course:c1'] },
+      { type: 'StudentEnrolled', payload: {}, tags: ['course:c1', 'student:s1'] },
+      { type: 'StudentEnrolled', payload: {}, tags: ['course:c2', 'student:s1'] },
+    ]);
+    const result = await store.load(
+      query.eventsOfTypes(['CourseCreated', 'StudentEnrolled']).where.taggedWith('course:c1'),
+    );
+    expect(result.events.map((e) => e.globalPosition)).toEqual([1n, 2n]);
+    expect(result.events[1]!.tags).toEqual(['course:c1', 'student:s1']);
+  });
+
   it('succeeds without AppendOptions (no concurrency check)', async () => {
     await expect(store.append({ type: 'X', payload: {} })).resolves.toHaveLength(1);
     await expect(store.append({ type: 'X', payload: {} })).resolves.toHaveLength(1);
@@ -65,58 +87,154 @@ describe('PostgresEventStore.append() (integration)', () => {
     expect((result.events[0]!.payload as Record<string, unknown>)['v']).toBe(1);
   });
 
-  it('rolls back all inserts when one fails mid-batch', async () => {
-    // Count events before the test
-    const countBefore = parseInt(
-      String((await pool.query('SELECT COUNT(*) AS cnt FROM events')).rows[0]!['cnt']),
-      10,
-    );
+  it('rolls back the whole batch when one event cannot be stored', async () => {
+    await store.append({ type: 'Before', payload: {} });
+    // jsonb rejects the NUL character, so the second row fails the statement
+    await expect(
+      store.append([
+        { type: 'RollbackTest', payload: { n: 1 } },
+        { type: 'RollbackTest', payload: { n: 2, s: 'bad\u0000' } },
+        { type: 'RollbackTest', payload: { n: 3 } },
+      ])
+    ).rejects.toBeInstanceOf(EventStoreError);
+    expect(await store.count(query.eventsOfTypes(['Before', 'RollbackTest']))).toBe(1);
+  });
 
-    // Build a fake pool whose client fails on the second INSERT, simulating a mid-batch failure.
-    // This verifies that append() issues ROLLBACK and wraps the error in EventStoreError,
-    // leaving no events committed.
-    let insertCallCount = 0;
-    const realClient = await pool.connect();
-
-    const fakeClient = {
-      query: async (sql: string, params?: unknown[]) => {
-        const sqlStr = String(sql);
-        if (/INSERT/i.test(sqlStr)) {
-          insertCallCount++;
-          if (insertCallCount === 2) {
-            throw new Error('simulated constraint violation on second insert');
-          }
-          // First INSERT goes through real client
-          return realClient.query(sql, params as unknown[]);
-        }
-        // BEGIN / ROLLBACK go through real client
-        return realClient.query(sql);
-      },
-      release: () => {
-        realClient.release();
+  it('assigns positions in the order of the events passed in', async () => {
+    const events = Array.from({ length: 50 }, (_, n) => ({ type: n % 2 === 0 ? 'Even' : 'Odd', payload: { n } }));
+    const result = await store.append(events);
+    expect(result.map((e) => e.payload['n'])).toEqual(events.map((e) => e.payload.n));
+    expect(result.map((e) => e.globalPosition)).toEqual(events.map((_, i) => BigInt(i + 1)));
+    const { events: loaded } = await store.load(query.eventsOfTypes(['Even', 'Odd']));
+    expect(loaded).toEqual(result);
+  });
+
+  it('round-trips payload, metadata and tags through the multi-row insert', async () => {
+    const [stored] = await store.append([
+      {
+        type: 'X',
+        payload: { s: 'quote " comma , newline \n ünïcødé 😀', nested: { list: [1, null] }, at: new Date('2024-01-01T00:00:00Z') },
+        metadata: { m: 1 },
+        tags: ['a"b', 'c\\d', 'e,f', '{g}'],
       },
-    };
+    ]);
+    expect(stored!.payload).toEqual({ s: 'quote " comma , newline \n ünïcødé 😀', nested: { list: [1, null] }, at: '2024-01-01T00:00:00.000Z' });
+    expect(stored!.metadata).toEqual({ m: 1 });
+    expect(stored!.tags).toEqual(['a"b', 'c\\d', 'e,f', '{g}']);
+  });
+});
+
+describe('PostgresEventStore.append() with client-supplied event ids (integration)', () => {
+  const ID_1 = '0190a7e2-5b1c-7d2e-8f3a-4b5c6d7e8f01';
+  const ID_2 = '0190a7e2-5b1c-7d2e-8f3a-4b5c6d7e8f02';
+
+  it('stores events under the supplied ids', async () => {
+    const [withId, withoutId] = await store.append([
+      { type: 'X', payload: {}, eventId: ID_1 },
+      { type: 'X', payload: {} },
+    ]);
+    expect(withId!.eventId).toBe(ID_1);
+    expect(withoutId!.eventId).toMatch(/^[0-9a-f-]{36}$/);
+  });
 
-    const fakePool = {
-      connect: async () => fakeClient,
-    } as unknown as pg.Pool;
+  it('returns the originally stored events when the same events are appended again', async () => {
+    const q = query.eventsOfType('StudentEnrolled').where.key('studentId').equals('s1');
+    const events = [
+      { type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' }, eventId: ID_1 },
+      { type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c2' }, eventId: ID_2 },
+    ];
+    const first = await store.append(events, { query: q, expectedVersion: 0n });
+    // The retry's condition no longer holds — its own events are stored now
+    const retried = await store.append(events, { query: q, expectedVersion: 0n });
+    expect(retried).toEqual(first);
+    expect(await store.count(q)).toBe(2);
+  });
+
+  it('rejects a batch that only partly repeats stored events', async () => {
+    await store.append({ type: 'X', payload: {}, eventId: ID_1 });
+    await expect(store.append([
+      { type: 'X', payload: {}, eventId: ID_1 },
+      { type: 'X', payload: {}, eventId: ID_2 },
+    ])).rejects.toBeInstanceOf(EventStoreError);
+    expect(await store.count(query.eventsOfType('X'))).toBe(1);
+  });
 
-    const storeWithFakePool = new PostgresEventStore({ pool: fakePool });
+  it('rejects an id reused for a different event instead of returning the stored one', async () => {
+    await store.append({ type: 'StudentEnrolled', payload: { studentId: 's1', at: new Date('2024-01-01T00:00:00Z') }, eventId: ID_1 });
+    // A Date is stored as its JSON string, so repeating it is still a retry
+    await store.append({ type: 'StudentEnrolled', payload: { at: new Date('2024-01-01T00:00:00Z'), studentId: 's1' }, eventId: ID_1 });
+    await expect(store.append({ type: 'StudentEnrolled', payload: { studentId: 's2' }, eventId: ID_1 }))
+      .rejects.toThrow(/already stored with a different/);
+    await expect(store.append({ type: 'StudentDropped', payload: { studentId: 's1' }, eventId: ID_1 }))
+      .rejects.toBeInstanceOf(EventStoreError);
+    expect(await store.count(query.eventsOfTypes(['StudentEnrolled', 'StudentDropped']))).toBe(1);
+  });
+});
+
+describe('PostgresEventStore.appendBulk() (integration)', () => {
+  it('copies events in order and returns how many were written', async () => {
+    await store.append({ type: 'Before', payload: {} });
+    const events = Array.from({ length: 2500 }, (_, n) => ({ type: 'Imported', payload: { n }, tags: [`batch:${n % 3}`] }));
+    expect(await store.appendBulk(events)).toBe(2500);
+    const { events: loaded } = await store.load(query.eventsOfType('Imported'));
+    expect(loaded.map((e) => e.payload['n'])).toEqual(events.map((e) => e.payload.n));
+    expect(loaded[0]!.globalPosition).toBe(2n);
+    expect(loaded.at(-1)!.globalPosition).toBe(2501n);
+  });
+
+  it('stores the same rows append() would', async () => {
+    const event = {
+      type: 'X',
+      payload: { s: 'quote " comma , newline \n backslash \\ 😀', nested: { a: [1, null] } },
+      metadata: { m: 'v' },
+      tags: ['a"b', 'c\\d', 'e,f', '{g}', 'NULL'],
+    };
+    const [appended] = await store.append(event);
+    await store.appendBulk([event, { type: 'X', payload: {} }]);
+    const { events } = await store.load(query.eventsOfType('X'));
+    const strip = ({ payload, metadata, tags, type }: (typeof events)[number]) => ({ payload, metadata, tags, type });
+    expect(strip(events[1]!)).toEqual(strip(appended!));
+    expect(events[2]!.metadata).toBeNull();
+    expect(events[2]!.tags).toEqual([]);
+  });
+
+  it('finds bulk-appended events by tag', async () => {
+    await store.appendBulk([
+      { type: 'CourseCreated', payload: {}, tags: ['course:c1'] },
+      { type: 'CourseCreated', payload: {}, tags: ['course:c2'] },
+    ]);
+    expect(await store.count(query.eventsOfType('CourseCreated').where.taggedWith('course:c2'))).toBe(1);
+  });
 
-    // The append should throw EventStoreError because the second insert fails
+  it('stores supplied event ids and fails the import on ids already stored', async () => {
+    const id = '0190a7e2-5b1c-7d2e-8f3a-4b5c6d7e8f03';
+    await store.appendBulk([{ type: 'Imported', payload: {}, eventId: id }]);
+    const { events } = await store.load(query.eventsOfType('Imported'));
+    expect(events[0]!.eventId).toBe(id);
     await expect(
-      storeWithFakePool.append([
-        { type: 'RollbackTest', payload: { n: 1 } },
-        { type: 'RollbackTest', payload: { n: 2 } },
-        { type: 'RollbackTest', payload: { n: 3 } },
-      ])
+      store.appendBulk([{ type: 'Imported', payload: {} }, { type: 'Imported', payload: {}, eventId: id }])
     ).rejects.toBeInstanceOf(EventStoreError);
+    expect(await store.count(query.eventsOfType('Imported'))).toBe(1);
+  });
 
-    // Verify the event count is unchanged — the first insert was rolled back
-    const countAfter = parseInt(
-      String((await pool.query('SELECT COUNT(*) AS cnt FROM events')).rows[0]!['cnt']),
-      10,
-    );
-    expect(countAfter).toBe(countBefore);
+  it('returns 0 for no events', async () => {
+    expect(await store.appendBulk([])).toBe(0);
+  });
+
+  it('checks conditions and writes nothing when one fails', async () => {
+    await store.append({ type: 'Imported', payload: {} });
+    await expect(
+      store.appendBulk([{ type: 'Imported', payload: {} }], { failIfEventsMatch: query.eventsOfType('Imported') })
+    ).rejects.toBeInstanceOf(ConcurrencyError);
+    expect(await store.count(query.eventsOfType('Imported'))).toBe(1);
+  });
+
+  it('rolls back the whole import when a row is rejected', async () => {
+    await expect(
+      store.appendBulk([{ type: 'Imported', payload: { n: 1 } }, { type: 'Imported', payload: { s: 'bad\u0000' } }])
+    ).rejects.toBeInstanceOf(EventStoreError);
+    expect(await store.count(query.eventsOfType('Imported'))).toBe(0);
+    // The connection is usable again
+    await expect(store.append({ type: 'Imported', payload: {} })).resolves.toHaveLength(1);
   });
 });
@@ -4,6 +4,8 @@ import { PostgresEventStore } from '../../src/store/event-store.js';
 import { ConcurrencyError } from '../../src/errors.js';
 import { query } from '../../src/query/query-object.js';
 import { createTestPool, resetDatabase } from './helpers.js';
+import { conformanceEvents } from '../shared/query-conformance.js';
+import { appendConditionCases, conformanceHead } from '../shared/append-condition-conformance.js';
 
 let pool: pg.Pool;
 let store: PostgresEventStore;
@@ -108,3 +110,272 @@ describe('PostgresEventStore append() with advisory locks — integration', () =
     expect(v2).toBeGreaterThan(v1);
   });
 });
+
+/**
+ * Pool handing out one client that stops right after its first statement
+ * matching `pausePoint` and runs `whilePaused` before continuing — a writer
+ * frozen between its version check and its insert.
+ */
+function pausingPool(pausePoint: string, whilePaused: () => Promise<void>): pg.Pool {
+  return {
+    connect: async () => {
+      const client = await pool.connect();
+      const runQuery = client.query.bind(client) as (...args: unknown[]) => Promise<unknown>;
+      let paused = false;
+      return Object.assign(Object.create(client) as pg.PoolClient, {
+        query: async (...args: unknown[]) => {
+          const result = await runQuery(...args);
+          if (!paused && String(args[0]).includes(pausePoint)) {
+            paused = true;
+            await whilePaused();
+          }
+          return result;
+        },
+        release: () => client.release(),
+      });
+    },
+  } as unknown as pg.Pool;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const enrollmentStream = (studentId: string, courseId: string) => query
+  .eventsOfTypes(['StudentEnrolled', 'StudentDropped'])
+  .where.key('studentId').equals(studentId).and.key('courseId').equals(courseId);
+const courseEnrollmentStream = (courseId: string) => query
+  .eventsOfTypes(['StudentEnrolled', 'StudentDropped'])
+  .where.key('courseId').equals(courseId);
+
+describe('append() lock sets — overlapping contexts', () => {
+  it('rejects a writer whose different but overlapping context changed while it waited', async () => {
+    await store.append({ type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' } });
+    const { version: courseVersion } = await store.load(courseEnrollmentStream('c1'));
+    const { version: enrollmentVersion } = await store.load(enrollmentStream('s1', 'c1'));
+
+    let enroll: Promise<unknown> | undefined;
+    const unenrolling = new PostgresEventStore({
+      pool: pausingPool('COALESCE(MAX', async () => {
+        // The unenrollment has passed its version check; an enrollment races it now
+        enroll = store.append(
+          { type: 'StudentEnrolled', payload: { studentId: 's2', courseId: 'c1' } },
+          { query: courseEnrollmentStream('c1'), expectedVersion: courseVersion },
+        ).catch((err: unknown) => err);
+        await sleep(200);
+      }),
+    });
+
+    await unenrolling.append(
+      { type: 'StudentDropped', payload: { studentId: 's1', courseId: 'c1' } },
+      { query: enrollmentStream('s1', 'c1'), expectedVersion: enrollmentVersion },
+    );
+    expect(await enroll).toBeInstanceOf(ConcurrencyError);
+    const { events } = await store.load(courseEnrollmentStream('c1'));
+    expect(events.map((e) => e.type)).toEqual(['StudentEnrolled', 'StudentDropped']);
+  });
+
+  it('makes an unconditional append of a matching event wait for the conditional writer', async () => {
+    let unconditional: Promise<Array<{ globalPosition: bigint }>> | undefined;
+    const conditional = new PostgresEventStore({
+      pool: pausingPool('COALESCE(MAX', async () => {
+        unconditional = store.append({ type: 'StudentEnrolled', payload: { studentId: 's2', courseId: 'c1' } });
+        await sleep(200);
+      }),
+    });
+
+    const [first] = await conditional.append(
+      { type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' } },
+      { query: courseEnrollmentStream('c1'), expectedVersion: 0n },
+    );
+    const [second] = await unconditional!;
+    expect(second!.globalPosition).toBeGreaterThan(first!.globalPosition);
+  });
+
+  it('does not block writers whose contexts cannot overlap', async () => {
+    let otherCourseDone = false;
+    const slow = new PostgresEventStore({
+      pool: pausingPool('COALESCE(MAX', async () => {
+        await store.append(
+          { type: 'StudentEnrolled', payload: { studentId: 's2', courseId: 'c2' } },
+          { query: courseEnrollmentStream('c2'), expectedVersion: 0n },
+        );
+        otherCourseDone = true;
+      }),
+    });
+
+    await slow.append(
+      { type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' } },
+      { query: courseEnrollmentStream('c1'), expectedVersion: 0n },
+    );
+    expect(otherCourseDone).toBe(true);
+  });
+
+  it('does not block unconditional appends sharing a payload value', async () => {
+    let otherDone = false;
+    const slow = new PostgresEventStore({
+      pool: pausingPool('INSERT INTO events', async () => {
+        // The first writer holds its locks until COMMIT; the second must not wait for them
+        await store.append({ type: 'StudentGraded', payload: { studentId: 's2', grade: 90, semester: '2024-fall' } });
+        otherDone = true;
+      }),
+    });
+
+    await slow.append({ type: 'StudentGraded', payload: { studentId: 's1', grade: 90, semester: '2024-fall' } });
+    expect(otherDone).toBe(true);
+    expect(await store.count(query.eventsOfType('StudentGraded'))).toBe(2);
+  });
+
+  it('loses no updates when writers use different queries over the same events', async () => {
+    const writers = 4;
+    const incrementsPerWriter = 5;
+    // Each writer's context names a different extra type, so no two queries are identical
+    const contextOf = (writer: number) => query
+      .eventsOfTypes(['CounterIncremented', `WriterNote${writer}`])
+      .where.key('counter').equals('k');
+
+    async function increment(writer: number): Promise<void> {
+      for (;;) {
+        const { events, version } = await store.load(contextOf(writer));
+        const value = events.filter((e) => e.type === 'CounterIncremented').length + 1;
+        try {
+          await store.append(
+            { type: 'CounterIncremented', payload: { counter: 'k', value, writer } },
+            { query: contextOf(writer), expectedVersion: version },
+          );
+          return;
+        } catch (err) {
+          if (!(err instanceof ConcurrencyError)) throw err;
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: writers }, async (_, writer) => {
+      for (let i = 0; i < incrementsPerWriter; i++) await increment(writer);
+    }));
+
+    const { events } = await store.load(query.eventsOfType('CounterIncremented'));
+    const values = events.map((e) => e.payload['value']);
+    expect(values).toEqual(Array.from({ length: writers * incrementsPerWriter }, (_, i) => i + 1));
+  });
+});
+
+describe('append() with an AppendCondition — conformance', () => {
+  beforeEach(async () => {
+    for (const e of conformanceEvents) {
+      await pool.query(
+        `INSERT INTO events (type, payload, metadata, tags, occurred_at)
+         VALUES ($1, $2::jsonb, $3::jsonb, $4::text[], $5::timestamptz)`,
+        [e.type, JSON.stringify(e.payload), e.metadata === null ? null : JSON.stringify(e.metadata), e.tags, e.occurredAt],
+      );
+    }
+  });
+
+  it.each(appendConditionCases)('$name', async ({ condition, fails }) => {
+    const outcome = store.append({ type: 'Appended', payload: {} }, condition);
+    if (fails) {
+      await expect(outcome).rejects.toBeInstanceOf(ConcurrencyError);
+      expect(await store.headPosition()).toBe(conformanceHead);
+    } else {
+      const [stored] = await outcome;
+      expect(stored!.globalPosition).toBeGreaterThan(conformanceHead);
+    }
+  });
+});
+
+describe('append() with an AppendCondition', () => {
+  it('succeeds on an empty store without after', async () => {
+    const result = await store.append({ type: 'X', payload: {} }, { failIfEventsMatch: query.eventsOfType('X') });
+    expect(result).toHaveLength(1);
+  });
+
+  it('accepts the version load() returned and rejects it once another writer appended', async () => {
+    const q = query.eventsOfType('X').where.key('id').equals('x1');
+    await store.append({ type: 'X', payload: { id: 'x1' } });
+    const { version } = await store.load(q);
+    await store.append({ type: 'X', payload: { id: 'x1' } }, { failIfEventsMatch: q, after: version });
+    await expect(
+      store.append({ type: 'X', payload: { id: 'x1' } }, { failIfEventsMatch: q, after: version })
+    ).rejects.toBeInstanceOf(ConcurrencyError);
+  });
+
+  it('lets exactly one of two racing writers under the same condition succeed', async () => {
+    const condition = { failIfEventsMatch: query.eventsOfType('Claimed').where.key('slot').equals(1), after: 0n };
+    const results = await Promise.allSettled([
+      store.append({ type: 'Claimed', payload: { slot: 1, by: 'a' } }, condition),
+      store.append({ type: 'Claimed', payload: { slot: 1, by: 'b' } }, condition),
+    ]);
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find((r) => r.status === 'rejected')?.reason).toBeInstanceOf(ConcurrencyError);
+  });
+});
+
+describe('append() with several conditions', () => {
+  const courseStream = (courseId: string) => query
+    .eventsOfTypes(['CourseCreated', 'CourseCancelled'])
+    .where.key('courseId').equals(courseId);
+
+  it('rejects an enrollment into a course cancelled since the load and names the condition', async () => {
+    await store.append({ type: 'CourseCreated', payload: { courseId: 'c1' } });
+    const { version: courseVersion } = await store.load(courseStream('c1'));
+    const { version: enrollmentsVersion } = await store.load(courseEnrollmentStream('c1'));
+    await store.append({ type: 'CourseCancelled', payload: { courseId: 'c1' } });
+
+    const err = await store.append({ type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' } }, [
+      { query: courseEnrollmentStream('c1'), expectedVersion: enrollmentsVersion },
+      { query: courseStream('c1'), expectedVersion: courseVersion },
+    ]).catch((e: unknown) => e) as ConcurrencyError;
+    expect(err).toBeInstanceOf(ConcurrencyError);
+    expect(err.conditionIndex).toBe(1);
+    expect(err.expectedVersion).toBe(courseVersion);
+    expect(await store.count(courseEnrollmentStream('c1'))).toBe(0);
+  });
+
+  it('appends when every condition holds', async () => {
+    await store.append({ type: 'CourseCreated', payload: { courseId: 'c1' } });
+    const { version: courseVersion } = await store.load(courseStream('c1'));
+    const result = await store.append({ type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' } }, [
+      { query: courseEnrollmentStream('c1'), expectedVersion: 0n },
+      { failIfEventsMatch: courseStream('c1'), after: courseVersion },
+    ]);
+    expect(result).toHaveLength(1);
+  });
+
+  it('makes a writer matching only a later condition wait for the append', async () => {
+    await store.append({ type: 'CourseCreated', payload: { courseId: 'c1' } });
+    const { version: courseVersion } = await store.load(courseStream('c1'));
+
+    let cancel: Promise<Array<{ globalPosition: bigint }>> | undefined;
+    const enrolling = new PostgresEventStore({
+      pool: pausingPool('COALESCE(MAX', async () => {
+        // The first condition has been checked; the course is cancelled now
+        cancel = store.append({ type: 'CourseCancelled', payload: { courseId: 'c1' } });
+        await sleep(200);
+      }),
+    });
+
+    const [enrolled] = await enrolling.append({ type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' } }, [
+      { query: courseEnrollmentStream('c1'), expectedVersion: 0n },
+      { query: courseStream('c1'), expectedVersion: courseVersion },
+    ]);
+    const [cancelled] = await cancel!;
+    expect(cancelled!.globalPosition).toBeGreaterThan(enrolled!.globalPosition);
+  });
+});
+
+describe('append() with client-supplied event ids — racing retries', () => {
+  it('makes a retry wait for the first attempt and return its events', async () => {
+    const eventId = '0190a7e2-5b1c-7d2e-8f3a-4b5c6d7e8f01';
+    let retry: Promise<Array<{ globalPosition: bigint }>> | undefined;
+    const first = new PostgresEventStore({
+      pool: pausingPool('event_id = ANY', async () => {
+        // The first attempt found nothing stored yet; the retry arrives now
+        retry = store.append({ type: 'Ping', payload: {}, eventId });
+        await sleep(200);
+      }),
+    });
+
+    const [stored] = await first.append({ type: 'Ping', payload: {}, eventId });
+    const [retried] = await retry!;
+    expect(retried!.globalPosition).toBe(stored!.globalPosition);
+    expect(await store.count(query.eventsOfType('Ping'))).toBe(1);
+  });
+});
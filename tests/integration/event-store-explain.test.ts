@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import pg from 'pg';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import { query } from '../../src/query/query-object.js';
+import { createTestPool, resetDatabase } from './helpers.js';
+
+let pool: pg.Pool;
+let store: PostgresEventStore;
+
+beforeAll(async () => {
+  pool = createTestPool();
+  store = new PostgresEventStore({ pool });
+  await resetDatabase(pool);
+  // Enough rows over enough types that the planner prefers the indexes
+  await pool.query(
+    `INSERT INTO events (type, payload, tags)
+     SELECT 'Type' || (i % 50), jsonb_build_object('k', i % 1000), ARRAY['k:' || (i % 1000)]
+     FROM generate_series(1, 20000) AS i`,
+  );
+  await pool.query('ANALYZE events');
+});
+
+afterAll(async () => {
+  await pool?.end();
+});
+
+describe('PostgresEventStore.explain() — integration', () => {
+  it('reports the type and payload indexes for a filtered query', async () => {
+    const result = await store.explain(query.eventsOfType('Type1').where.key('k').equals(1));
+    expect(result.indexes).toEqual(expect.arrayContaining(['idx_events_type_position', 'idx_events_payload_gin']));
+    expect(result.warnings).toEqual([]);
+    expect(result.estimatedRows).toBeGreaterThan(0);
+  });
+
+  it('serves a tag filter from the tags index', async () => {
+    const result = await store.explain(query.eventsOfTypePrefix('Type').where.taggedWith('k:1'));
+    expect(result.indexes).toContain('idx_events_tags_gin');
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('warns when a prefix query reads every row', async () => {
+    const result = await store.explain(query.eventsOfTypePrefix('Type'));
+    expect(result.warnings.length).toBeGreaterThan(0);
+  });
+
+  it('reports actual rows with analyze', async () => {
+    const result = await store.explain(query.eventsOfType('Type1'), { analyze: true });
+    expect(result.actualRows).toBe(400);
+    expect(result.executionTimeMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('explains the version-check and stream forms', async () => {
+    const version = await store.explain(query.eventsOfType('Type1'), { form: 'versionCheck' });
+    expect(version.sql).toContain('MAX(global_position)');
+    const stream = await store.explain(query.eventsOfType('Type1'), { form: 'stream', batchSize: 10 });
+    expect(stream.estimatedRows).toBeLessThanOrEqual(10);
+  });
+});
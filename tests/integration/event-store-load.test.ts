@@ -121,3 +121,75 @@ describe('PostgresEventStore.load() — integration', () => {
     expect(result.version).toBe(0n);
   });
 });
+
+describe('PostgresEventStore.loadLast() — integration', () => {
+  it('returns the last n matching events in position order', async () => {
+    await seedEvents(pool, Array.from({ length: 10 }, (_, i) => ({ type: i % 2 === 0 ? 'Graded' : 'Other', payload: { n: i } })));
+    const result = await store.loadLast(query.eventsOfType('Graded'), 3);
+    expect(result.events.map((e) => e.payload['n'])).toEqual([4, 6, 8]);
+    expect(result.version).toBe(9n);
+  });
+
+  it('version equals the version load() returns for the same query', async () => {
+    await seedEvents(pool, Array.from({ length: 5 }, (_, i) => ({ type: 'V', payload: { n: i } })));
+    const q = query.eventsOfType('V').where.key('n').lt(4);
+    expect((await store.loadLast(q, 1)).version).toBe((await store.load(q)).version);
+  });
+
+  it('returns every event when fewer than n match', async () => {
+    await seedEvents(pool, [{ type: 'Few', payload: {} }, { type: 'Few', payload: {} }]);
+    const result = await store.loadLast(query.eventsOfType('Few'), 20);
+    expect(result.events.map((e) => e.globalPosition)).toEqual([1n, 2n]);
+  });
+
+  it('respects query bounds', async () => {
+    await seedEvents(pool, Array.from({ length: 6 }, () => ({ type: 'B', payload: {} })));
+    const result = await store.loadLast(query.eventsOfType('B').untilPosition(4n), 2);
+    expect(result.events.map((e) => e.globalPosition)).toEqual([3n, 4n]);
+  });
+});
+
+describe('PostgresEventStore.loadMany() — integration', () => {
+  it('returns the same results as separate load() calls', async () => {
+    await seedEvents(pool, [
+      { type: 'StudentRegistered', payload: { studentId: 's1' } },
+      { type: 'CourseCreated', payload: { courseId: 'c1' } },
+      { type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' } },
+    ]);
+    const queries = {
+      student: query.eventsOfType('StudentRegistered').where.key('studentId').equals('s1'),
+      course: query.eventsOfType('CourseCreated').where.key('courseId').equals('c1'),
+      missing: query.eventsOfType('CourseCancelled'),
+    };
+    const results = await store.loadMany(queries);
+    expect(results.student).toEqual(await store.load(queries.student));
+    expect(results.course).toEqual(await store.load(queries.course));
+    expect(results.missing).toEqual({ events: [], version: 0n });
+  });
+
+  it('reads every query from one snapshot, ignoring appends committed in between', async () => {
+    await seedEvents(pool, [{ type: 'A', payload: {} }, { type: 'B', payload: {} }]);
+    // Commit a new B event right after the first query of the transaction ran
+    const client = await pool.connect();
+    const runQuery = client.query.bind(client) as (...args: unknown[]) => Promise<unknown>;
+    let appended = false;
+    const spied = Object.assign(Object.create(client) as pg.PoolClient, {
+      query: async (...args: unknown[]) => {
+        const result = await runQuery(...args);
+        if (!appended && String(args[0]).includes('FROM events')) {
+          appended = true;
+          await seedEvents(pool, [{ type: 'B', payload: {} }]);
+        }
+        return result;
+      },
+      release: () => client.release(),
+    });
+    const snapshotPool = { connect: () => Promise.resolve(spied) } as unknown as pg.Pool;
+
+    const results = await new PostgresEventStore({ pool: snapshotPool })
+      .loadMany({ a: query.eventsOfType('A'), b: query.eventsOfType('B') });
+    expect(appended).toBe(true);
+    expect(results.b.version).toBe(2n);
+    expect((await store.load(query.eventsOfType('B'))).version).toBe(3n);
+  });
+});
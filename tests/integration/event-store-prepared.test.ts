@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import pg from 'pg';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import { EventStoreError } from '../../src/errors.js';
+import { query } from '../../src/query/query-object.js';
+import { createTestPool, resetDatabase, seedEvents } from './helpers.js';
+
+// One connection, so pg_prepared_statements shows everything the store prepared
+let pool: pg.Pool;
+let store: PostgresEventStore;
+
+beforeEach(async () => {
+  pool = new pg.Pool({ connectionString: process.env['TEST_DATABASE_URL'], max: 1 });
+  store = new PostgresEventStore({ pool, preparedStatements: { maxStatements: 2 } });
+  await resetDatabase(pool);
+});
+
+afterEach(async () => {
+  await pool.end();
+});
+
+async function preparedCount(): Promise<number> {
+  const result = await pool.query<{ count: string }>('SELECT COUNT(*) AS count FROM pg_prepared_statements');
+  return Number(result.rows[0]!.count);
+}
+
+describe('PostgresEventStore with preparedStatements — integration', () => {
+  it('returns the same results as plain queries', async () => {
+    await seedEvents(pool, [
+      { type: 'A', payload: { k: 1 } },
+      { type: 'B', payload: { k: 2 } },
+      { type: 'A', payload: { k: 2 } },
+    ]);
+    const plain = new PostgresEventStore({ pool: createTestPool() });
+    try {
+      for (const q of [query.eventsOfType('A'), query.eventsOfType('B'), query.eventsOfType('A').where.key('k').equals(2)]) {
+        expect(await store.load(q)).toEqual(await plain.load(q));
+      }
+      expect(await store.count(query.eventsOfType('A'))).toBe(2);
+    } finally {
+      await plain.close();
+    }
+  });
+
+  it('prepares one statement per shape and keeps at most maxStatements', async () => {
+    await store.load(query.eventsOfType('A'));
+    await store.load(query.eventsOfType('B'));
+    expect(await preparedCount()).toBe(1);
+
+    await store.exists(query.eventsOfType('A'));
+    await store.count(query.eventsOfType('A'));    // evicts and deallocates the load() statement
+    expect(await preparedCount()).toBe(2);
+    await store.headPosition();
+    expect(await preparedCount()).toBe(2);
+  });
+
+  it('deallocates a statement whose execution failed after it was parsed', async () => {
+    // jsonb rejects \u0000 when the parameters are bound, after Parse
+    await expect(store.append({ type: 'A', payload: { s: '\u0000' } })).rejects.toBeInstanceOf(EventStoreError);
+    expect(await preparedCount()).toBe(1); // the INSERT
+    await store.load(query.eventsOfType('A'));
+    await store.count(query.eventsOfType('A'));
+    await store.exists(query.eventsOfType('A'));
+    expect(await preparedCount()).toBe(2);
+  });
+
+  it('stores sharing a pool never clash on statement names', async () => {
+    const other = new PostgresEventStore({ pool, preparedStatements: true });
+    await store.load(query.eventsOfType('A'));
+    await other.count(query.eventsOfType('A'));
+    await store.count(query.eventsOfType('A'));
+    expect(await other.load(query.eventsOfType('A'))).toEqual({ events: [], version: 0n });
+  });
+
+  it('works inside append transactions', async () => {
+    const q = query.eventsOfType('Counter');
+    await store.append({ type: 'Counter', payload: {} }, { query: q, expectedVersion: 0n });
+    await store.append({ type: 'Counter', payload: {} }, { query: q, expectedVersion: 1n });
+    expect((await store.load(q)).events).toHaveLength(2);
+  });
+});
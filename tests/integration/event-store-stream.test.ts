@@ -101,3 +101,29 @@ describe('PostgresEventStore.stream() integration', () => {
     expect(events).toHaveLength(100);
   });
 });
+
+describe('PostgresEventStore.stream() backward — integration', () => {
+  it('yields events newest first across multiple pages', async () => {
+    await seedEvents(pool, Array.from({ length: 25 }, (_, i) => ({ type: 'Back', payload: { n: i } })));
+    const events = await collectStream(
+      store.stream(query.eventsOfType('Back'), { direction: 'backward', batchSize: 10 })
+    ) as any[];
+    expect(events.map((e: any) => e.payload.n)).toEqual(Array.from({ length: 25 }, (_, i) => 24 - i));
+  });
+
+  it('starts before the given beforePosition', async () => {
+    await seedEvents(pool, Array.from({ length: 10 }, (_, i) => ({ type: 'Before', payload: { n: i } })));
+    const events = await collectStream(
+      store.stream(query.eventsOfType('Before'), { direction: 'backward', beforePosition: 4n })
+    ) as any[];
+    expect(events.map((e: any) => e.globalPosition)).toEqual([3n, 2n, 1n]);
+  });
+
+  it('applies filters and bounds', async () => {
+    await seedEvents(pool, Array.from({ length: 10 }, (_, i) => ({ type: 'F', payload: { even: i % 2 === 0 } })));
+    const events = await collectStream(
+      store.stream(query.eventsOfType('F').where.key('even').equals(true).afterPosition(4n), { direction: 'backward', batchSize: 2 })
+    ) as any[];
+    expect(events.map((e: any) => e.globalPosition)).toEqual([9n, 7n, 5n]);
+  });
+});
@@ -0,0 +1,100 @@
+import { bench, describe, beforeAll, afterAll } from 'vitest';
+import pg from 'pg';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import { query } from '../../src/query/query-object.js';
+import { createTestPool, resetDatabase } from './helpers.js';
+
+/**
+ * The reads of the university app's enrollStudent and gradeStudent commands,
+ * with and without prepared statements. Run with `npm run bench`.
+ */
+
+const TYPES = [
+  'StudentRegistered', 'StudentEnrolled', 'StudentGraded', 'StudentDropped', 'StudentPassedCourse',
+  'CourseCreated', 'CoursePublished', 'TeacherHired', 'TeacherAssignedToCourse', 'StudentWithdrew',
+];
+
+const studentStream = (studentId: string) => query
+  .eventsOfType('StudentRegistered').where.key('studentId').equals(studentId)
+  .eventsOfType('StudentPassedCourse').where.key('studentId').equals(studentId)
+  .eventsOfType('StudentFailedCourse').where.key('studentId').equals(studentId);
+
+const courseStream = (courseId: string) => query
+  .eventsOfType('CourseCreated').where.key('courseId').equals(courseId)
+  .eventsOfType('CoursePublished').where.key('courseId').equals(courseId)
+  .eventsOfType('CourseClosed').where.key('courseId').equals(courseId)
+  .eventsOfType('CourseCancelled').where.key('courseId').equals(courseId)
+  .eventsOfType('TeacherAssignedToCourse').where.key('courseId').equals(courseId)
+  .eventsOfType('TeacherRemovedFromCourse').where.key('courseId').equals(courseId);
+
+const enrollmentStream = (studentId: string, courseId: string) => query
+  .eventsOfType('StudentEnrolled').where.key('studentId').equals(studentId).and.key('courseId').equals(courseId)
+  .eventsOfType('StudentDropped').where.key('studentId').equals(studentId).and.key('courseId').equals(courseId)
+  .eventsOfType('StudentWithdrew').where.key('studentId').equals(studentId).and.key('courseId').equals(courseId)
+  .eventsOfType('StudentGraded').where.key('studentId').equals(studentId).and.key('courseId').equals(courseId)
+  .eventsOfType('StudentPassedCourse').where.key('studentId').equals(studentId).and.key('courseId').equals(courseId)
+  .eventsOfType('StudentFailedCourse').where.key('studentId').equals(studentId).and.key('courseId').equals(courseId);
+
+const courseEnrollmentStream = (courseId: string) => query
+  .eventsOfType('StudentEnrolled').where.key('courseId').equals(courseId)
+  .eventsOfType('StudentDropped').where.key('courseId').equals(courseId)
+  .eventsOfType('StudentWithdrew').where.key('courseId').equals(courseId);
+
+const teacherStream = (teacherId: string) => query
+  .eventsOfType('TeacherHired').where.key('teacherId').equals(teacherId)
+  .eventsOfType('TeacherDismissed').where.key('teacherId').equals(teacherId);
+
+let pool: pg.Pool;
+let plain: PostgresEventStore;
+let prepared: PostgresEventStore;
+let n = 0;
+
+async function enrollReads(store: PostgresEventStore): Promise<void> {
+  n += 1;
+  const [studentId, courseId] = [`s${n % 3000}`, `c${n % 500}`];
+  await Promise.all([
+    store.load(studentStream(studentId)),
+    store.load(courseStream(courseId)),
+    store.load(enrollmentStream(studentId, courseId)),
+    store.load(courseEnrollmentStream(courseId)),
+  ]);
+}
+
+async function gradeReads(store: PostgresEventStore): Promise<void> {
+  n += 1;
+  const [studentId, courseId] = [`s${n % 3000}`, `c${n % 500}`];
+  await Promise.all([
+    store.load(enrollmentStream(studentId, courseId)),
+    store.load(courseStream(courseId)),
+    store.load(teacherStream(`t${n % 100}`)),
+  ]);
+}
+
+beforeAll(async () => {
+  pool = createTestPool();
+  plain = new PostgresEventStore({ pool });
+  prepared = new PostgresEventStore({ pool, preparedStatements: true });
+  await resetDatabase(pool);
+  await pool.query(
+    `INSERT INTO events (type, payload)
+     SELECT ($1::text[])[1 + i % 10],
+            jsonb_build_object('courseId', 'c' || (i % 500), 'studentId', 's' || (i % 3000), 'teacherId', 't' || (i % 100))
+     FROM generate_series(1, 5000) AS i`,
+    [TYPES],
+  );
+  await pool.query('ANALYZE events');
+});
+
+afterAll(async () => {
+  await pool?.end();
+});
+
+describe('enrollStudent reads (4 loads)', () => {
+  bench('prepared statements', () => enrollReads(prepared));
+  bench('text queries', () => enrollReads(plain));
+});
+
+describe('gradeStudent reads (3 loads)', () => {
+  bench('prepared statements', () => gradeReads(prepared));
+  bench('text queries', () => gradeReads(plain));
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import pg from 'pg';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import { matches } from '../../src/query/matcher.js';
+import { query } from '../../src/query/query-object.js';
+import { createTestPool, resetDatabase } from './helpers.js';
+import { conformanceCases, conformanceEvents } from '../shared/query-conformance.js';
+
+let pool: pg.Pool;
+let store: PostgresEventStore;
+
+beforeAll(async () => {
+  pool = createTestPool();
+  store = new PostgresEventStore({ pool });
+  await resetDatabase(pool);
+  for (const e of conformanceEvents) {
+    await pool.query(
+      `INSERT INTO events (type, payload, metadata, tags, occurred_at)
+       VALUES ($1, $2::jsonb, $3::jsonb, $4::text[], $5::timestamptz)`,
+      [e.type, JSON.stringify(e.payload), e.metadata === null ? null : JSON.stringify(e.metadata), e.tags, e.occurredAt],
+    );
+  }
+});
+
+afterAll(async () => {
+  await pool?.end();
+});
+
+describe('Query semantics conformance — SQL compiler', () => {
+  it.each(conformanceCases)('$name', async ({ query: q, expected }) => {
+    const { events } = await store.load(q);
+    expect(events.map((e) => e.payload['n'])).toEqual(expected);
+  });
+
+  it.each(conformanceCases)('matcher agrees on stored rows: $name', async ({ query: q }) => {
+    const types = [...new Set(conformanceEvents.map((e) => e.type))];
+    const { events: rows } = await store.load(query.eventsOfTypes(types));
+    const { events } = await store.load(q);
+    expect(rows.filter((e) => matches(q, e))).toEqual(events);
+  });
+});
@@ -0,0 +1,374 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import pg from 'pg';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import { ConcurrencyError } from '../../src/errors.js';
+import { query } from '../../src/query/query-object.js';
+import { createTestPool, resetDatabase, seedEvents } from './helpers.js';
+
+let pool: pg.Pool;
+let store: PostgresEventStore;
+
+beforeEach(async () => {
+  if (!pool) pool = createTestPool();
+  if (!store) store = new PostgresEventStore({ pool });
+  await resetDatabase(pool);
+});
+
+afterAll(async () => {
+  await pool?.end();
+});
+
+describe('Query DSL operators — integration', () => {
+  it('group() expresses a AND (b OR c)', async () => {
+    await seedEvents(pool, [
+      { type: 'StudentEnrolled', payload: { n: 1, studentId: 's1', courseId: 'c1' } },
+      { type: 'StudentEnrolled', payload: { n: 2, studentId: 's1', courseId: 'c2' } },
+      { type: 'StudentEnrolled', payload: { n: 3, studentId: 's1', courseId: 'c3' } },
+      { type: 'StudentEnrolled', payload: { n: 4, studentId: 's2', courseId: 'c1' } },
+      { type: 'StudentEnrolled', payload: { n: 5, studentId: 's3', courseId: 'c2' } },
+    ]);
+    const grouped = await store.load(
+      query.eventsOfType('StudentEnrolled')
+        .where.key('studentId').equals('s1')
+        .and.group(g => g.key('courseId').equals('c1').or.key('courseId').equals('c2')),
+    );
+    expect(grouped.events.map(e => e.payload['n'])).toEqual([1, 2]);
+
+    // Without grouping the same chain reads as (s1 AND c1) OR c2
+    const chained = await store.load(
+      query.eventsOfType('StudentEnrolled')
+        .where.key('studentId').equals('s1')
+        .and.key('courseId').equals('c1')
+        .or.key('courseId').equals('c2'),
+    );
+    expect(chained.events.map(e => e.payload['n'])).toEqual([1, 2, 5]);
+
+    const other = await store.load(
+      query.eventsOfType('StudentEnrolled')
+        .where.group(g => g.key('studentId').equals('s2').or.key('courseId').equals('c3'))
+        .and.key('courseId').equals('c1'),
+    );
+    expect(other.events.map(e => e.payload['n'])).toEqual([4]);
+  });
+
+  describe('multi-type and prefix clauses', () => {
+    beforeEach(async () => {
+      await seedEvents(pool, [
+        { type: 'CourseCreated', payload: { n: 1, courseId: 'c1' } },
+        { type: 'CoursePublished', payload: { n: 2, courseId: 'c1' } },
+        { type: 'CourseCreated', payload: { n: 3, courseId: 'c2' } },
+        { type: 'StudentRegistered', payload: { n: 4, studentId: 's1' } },
+        { type: 'Student_Legacy', payload: { n: 5, studentId: 's1' } },
+        { type: 'CourseClosed', payload: { n: 6, courseId: 'c1' } },
+      ]);
+    });
+
+    it('eventsOfTypes() applies one filter to every listed type', async () => {
+      const { events } = await store.load(
+        query.eventsOfTypes(['CourseCreated', 'CoursePublished', 'CourseClosed']).where.key('courseId').equals('c1'),
+      );
+      expect(events.map(e => e.payload['n'])).toEqual([1, 2, 6]);
+    });
+
+    it('eventsOfTypePrefix() matches types by prefix', async () => {
+      const { events } = await store.load(query.eventsOfTypePrefix('Student'));
+      expect(events.map(e => e.payload['n'])).toEqual([4, 5]);
+    });
+
+    it('LIKE wildcards in a prefix are literal', async () => {
+      const { events } = await store.load(query.eventsOfTypePrefix('Student_'));
+      expect(events.map(e => e.payload['n'])).toEqual([5]);
+    });
+  });
+
+  describe('nested payload paths', () => {
+    beforeEach(async () => {
+      await seedEvents(pool, [
+        { type: 'StudentRegistered', payload: { n: 1, address: { city: 'Berlin', zip: '10115' }, scores: { gpa: 3.7 } } },
+        { type: 'StudentRegistered', payload: { n: 2, address: { city: 'Paris' }, scores: { gpa: 2.9 } } },
+        { type: 'StudentRegistered', payload: { n: 3, 'address.city': 'Berlin' } },
+      ]);
+    });
+
+    it('equals() matches a nested value', async () => {
+      const { events } = await store.load(query.eventsOfType('StudentRegistered').where.key('address.city').equals('Berlin'));
+      expect(events.map(e => e.payload['n'])).toEqual([1]);
+    });
+
+    it('an array path with one segment addresses a literal dotted key', async () => {
+      const { events } = await store.load(query.eventsOfType('StudentRegistered').where.key(['address.city']).equals('Berlin'));
+      expect(events.map(e => e.payload['n'])).toEqual([3]);
+    });
+
+    it('in() and range operators follow nested paths', async () => {
+      const inResult = await store.load(
+        query.eventsOfType('StudentRegistered').where.key(['address', 'city']).in(['Paris', 'Rome']),
+      );
+      expect(inResult.events.map(e => e.payload['n'])).toEqual([2]);
+
+      const rangeResult = await store.load(query.eventsOfType('StudentRegistered').where.key('scores.gpa').gte(3));
+      expect(rangeResult.events.map(e => e.payload['n'])).toEqual([1]);
+    });
+  });
+
+  describe('negation and existence', () => {
+    beforeEach(async () => {
+      await seedEvents(pool, [
+        { type: 'CourseCreated', payload: { courseId: 'c1', prerequisites: [] } },
+        { type: 'CourseCreated', payload: { courseId: 'c2', prerequisites: ['c1'] } },
+        { type: 'CourseCreated', payload: { courseId: 'c3' } },
+        { type: 'StudentDropped', payload: { studentId: 's1', droppedBy: 's1' } },
+        { type: 'StudentDropped', payload: { studentId: 's1', droppedBy: 'admin' } },
+        { type: 'StudentDropped', payload: { studentId: 's2' }, metadata: { reason: 'late' } },
+      ]);
+    });
+
+    it('notEquals() includes events without the key', async () => {
+      const { events } = await store.load(query.eventsOfType('StudentDropped').where.key('droppedBy').notEquals('s1'));
+      expect(events.map(e => e.payload['droppedBy'] ?? null)).toEqual(['admin', null]);
+    });
+
+    it('exists() on the first array element selects non-empty arrays', async () => {
+      const { events } = await store.load(query.eventsOfType('CourseCreated').where.key('prerequisites.0').exists());
+      expect(events.map(e => e.payload['courseId'])).toEqual(['c2']);
+    });
+
+    it('missing() selects events without the key', async () => {
+      const { events } = await store.load(query.eventsOfType('CourseCreated').where.key('prerequisites').missing());
+      expect(events.map(e => e.payload['courseId'])).toEqual(['c3']);
+    });
+
+    it('.not negates range filters on events that lack the key', async () => {
+      const { events } = await store.load(
+        query.eventsOfType('StudentDropped').where.key('studentId').equals('s1').and.not.key('droppedBy').gt('b'),
+      );
+      expect(events.map(e => e.payload['droppedBy'])).toEqual(['admin']);
+    });
+
+    it('metadata missing() matches events with NULL metadata', async () => {
+      const { events } = await store.load(query.eventsOfType('StudentDropped').where.metadata('reason').missing());
+      expect(events).toHaveLength(2);
+    });
+  });
+
+  describe('metadata filters', () => {
+    beforeEach(async () => {
+      await seedEvents(pool, [
+        { type: 'CourseCreated', payload: { n: 1 }, metadata: { correlationId: 'req-1', tenant: 't1' } },
+        { type: 'CoursePublished', payload: { n: 2 }, metadata: { correlationId: 'req-1', tenant: 't1' } },
+        { type: 'CourseCreated', payload: { n: 3 }, metadata: { correlationId: 'req-2', tenant: 't2' } },
+        { type: 'CourseCreated', payload: { n: 4, correlationId: 'req-1' } },
+      ]);
+    });
+
+    it('matches on metadata, not payload', async () => {
+      const { events } = await store.load(
+        query.eventsOfType('CourseCreated').where.metadata('correlationId').equals('req-1')
+          .eventsOfType('CoursePublished').where.metadata('correlationId').equals('req-1'),
+      );
+      expect(events.map(e => e.payload['n'])).toEqual([1, 2]);
+    });
+
+    it('events without metadata never match range filters', async () => {
+      const { events } = await store.load(query.eventsOfType('CourseCreated').where.metadata('tenant').lt('t2'));
+      expect(events.map(e => e.payload['n'])).toEqual([1]);
+    });
+
+    it('works with the optional metadata index', async () => {
+      const indexedStore = new PostgresEventStore({ pool, metadataIndex: true });
+      await indexedStore.initializeSchema();
+      const { rows } = await pool.query(
+        "SELECT 1 FROM pg_indexes WHERE tablename = 'events' AND indexname = 'idx_events_metadata_gin'",
+      );
+      expect(rows).toHaveLength(1);
+      const { events } = await indexedStore.load(query.eventsOfType('CourseCreated').where.metadata('tenant').in(['t2']));
+      expect(events.map(e => e.payload['n'])).toEqual([3]);
+      await pool.query('DROP INDEX idx_events_metadata_gin');
+    });
+  });
+
+  describe('in()', () => {
+    beforeEach(async () => {
+      await seedEvents(pool, [
+        { type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' } },
+        { type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c2' } },
+        { type: 'StudentEnrolled', payload: { studentId: 's2', courseId: 'c3' } },
+        { type: 'StudentEnrolled', payload: { studentId: 's3', courseId: 4 } },
+      ]);
+    });
+
+    it('matches any of the listed values', async () => {
+      const { events } = await store.load(
+        query.eventsOfType('StudentEnrolled').where.key('courseId').in(['c1', 'c3', 'missing']),
+      );
+      expect(events.map(e => e.payload['courseId'])).toEqual(['c1', 'c3']);
+    });
+
+    it('respects JSON types of the values', async () => {
+      const { events } = await store.load(
+        query.eventsOfType('StudentEnrolled').where.key('courseId').in([4, 'c2']),
+      );
+      expect(events.map(e => e.payload['courseId'])).toEqual(['c2', 4]);
+    });
+
+    it('combines with AND filters', async () => {
+      const { events } = await store.load(
+        query.eventsOfType('StudentEnrolled')
+          .where.key('studentId').equals('s1')
+          .and.key('courseId').in(['c2', 'c3']),
+      );
+      expect(events.map(e => e.payload['courseId'])).toEqual(['c2']);
+    });
+
+    it('an empty list matches nothing', async () => {
+      const { events } = await store.load(query.eventsOfType('StudentEnrolled').where.key('courseId').in([]));
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('array containment', () => {
+    beforeEach(async () => {
+      await seedEvents(pool, [
+        { type: 'CourseCreated', payload: { courseId: 'c1', prerequisites: [] } },
+        { type: 'CourseCreated', payload: { courseId: 'c2', prerequisites: ['c1'] } },
+        { type: 'CourseCreated', payload: { courseId: 'c3', prerequisites: ['c1', 'c2'] } },
+        { type: 'CourseCreated', payload: { courseId: 'c4', prerequisites: 'c1' } },
+      ]);
+    });
+
+    it('contains() finds courses listing a prerequisite', async () => {
+      const { events } = await store.load(query.eventsOfType('CourseCreated').where.key('prerequisites').contains('c1'));
+      expect(events.map(e => e.payload['courseId'])).toEqual(['c2', 'c3']);
+    });
+
+    it('containsAll() requires every element', async () => {
+      const { events } = await store.load(
+        query.eventsOfType('CourseCreated').where.key('prerequisites').containsAll(['c2', 'c1']),
+      );
+      expect(events.map(e => e.payload['courseId'])).toEqual(['c3']);
+    });
+  });
+
+  describe('range operators', () => {
+    beforeEach(async () => {
+      await seedEvents(pool, [
+        { type: 'StudentGraded', payload: { studentId: 's1', grade: 45 } },
+        { type: 'StudentGraded', payload: { studentId: 's2', grade: 60 } },
+        { type: 'StudentGraded', payload: { studentId: 's3', grade: 92.5 } },
+        { type: 'StudentGraded', payload: { studentId: 's4', grade: 'incomplete' } },
+        { type: 'StudentGraded', payload: { studentId: 's5' } },
+      ]);
+    });
+
+    it('lt matches numeric values only', async () => {
+      const { events } = await store.load(query.eventsOfType('StudentGraded').where.key('grade').lt(60));
+      expect(events.map(e => e.payload['studentId'])).toEqual(['s1']);
+    });
+
+    it('gte is inclusive', async () => {
+      const { events } = await store.load(query.eventsOfType('StudentGraded').where.key('grade').gte(60));
+      expect(events.map(e => e.payload['studentId'])).toEqual(['s2', 's3']);
+    });
+
+    it('between is inclusive on both ends', async () => {
+      const { events } = await store.load(
+        query.eventsOfType('StudentGraded').where.key('grade').between(45, 60),
+      );
+      expect(events.map(e => e.payload['studentId'])).toEqual(['s1', 's2']);
+    });
+
+    it('string ranges compare text values', async () => {
+      const { events } = await store.load(
+        query.eventsOfType('StudentGraded').where.key('studentId').gt('s3'),
+      );
+      expect(events.map(e => e.payload['studentId'])).toEqual(['s4', 's5']);
+    });
+  });
+
+  it('date ranges compare ISO-8601 timestamps', async () => {
+    await seedEvents(pool, [
+      { type: 'StudentEnrolled', payload: { n: 1, enrolledAt: '2024-01-10T09:00:00.000Z' } },
+      { type: 'StudentEnrolled', payload: { n: 2, enrolledAt: '2024-02-10T09:00:00+02:00' } },
+      { type: 'StudentEnrolled', payload: { n: 3, enrolledAt: '2024-03-10T09:00:00.000Z' } },
+    ]);
+    const { events } = await store.load(
+      query.eventsOfType('StudentEnrolled').where.key('enrolledAt')
+        .between(new Date('2024-02-01T00:00:00Z'), new Date('2024-03-10T09:00:00Z')),
+    );
+    expect(events.map(e => e.payload['n'])).toEqual([2, 3]);
+  });
+
+  it('date ranges skip strings that are not timestamps instead of failing', async () => {
+    await seedEvents(pool, [
+      { type: 'StudentEnrolled', payload: { n: 1, enrolledAt: 'TBD' } },
+      { type: 'StudentEnrolled', payload: { n: 2, enrolledAt: '2024-02-30T09:00:00Z' } },
+      { type: 'StudentEnrolled', payload: { n: 3, enrolledAt: '2024-02-10' } },
+      { type: 'StudentEnrolled', payload: { n: 4, enrolledAt: '2024-02-10T09:00:00.000Z' } },
+    ]);
+    const { events } = await store.load(
+      query.eventsOfType('StudentEnrolled').where.key('enrolledAt').gt(new Date('2024-01-01T00:00:00Z')),
+    );
+    expect(events.map(e => e.payload['n'])).toEqual([4]);
+  });
+
+  it('append() version check honours range filters', async () => {
+    const q = query.eventsOfType('StudentGraded').where.key('grade').lt(60);
+    await seedEvents(pool, [{ type: 'StudentGraded', payload: { grade: 90 } }]);
+    const { version } = await store.load(q);
+    expect(version).toBe(0n);
+
+    // A passing grade is outside the context — does not move the version
+    await store.append({ type: 'StudentGraded', payload: { grade: 75 } });
+    await store.append({ type: 'StudentGraded', payload: { grade: 50 } }, { query: q, expectedVersion: version });
+
+    await expect(
+      store.append({ type: 'StudentGraded', payload: { grade: 40 } }, { query: q, expectedVersion: version }),
+    ).rejects.toBeInstanceOf(ConcurrencyError);
+  });
+
+  describe('query bounds', () => {
+    beforeEach(async () => {
+      await seedEvents(pool, [
+        { type: 'StudentEnrolled', payload: { n: 1 } },
+        { type: 'StudentEnrolled', payload: { n: 2 } },
+        { type: 'StudentEnrolled', payload: { n: 3 } },
+        { type: 'StudentEnrolled', payload: { n: 4 } },
+      ]);
+      await pool.query(
+        `UPDATE events SET occurred_at = TIMESTAMPTZ '2024-01-01T00:00:00Z' + (global_position - 1) * INTERVAL '1 day'`,
+      );
+    });
+
+    it('afterPosition() and untilPosition() bound global_position', async () => {
+      const { events } = await store.load(query.eventsOfType('StudentEnrolled').afterPosition(1n).untilPosition(3n));
+      expect(events.map(e => e.payload['n'])).toEqual([2, 3]);
+    });
+
+    it('occurredBetween() is inclusive of from and exclusive of to', async () => {
+      const { events } = await store.load(
+        query.eventsOfType('StudentEnrolled')
+          .occurredBetween(new Date('2024-01-02T00:00:00Z'), new Date('2024-01-04T00:00:00Z')),
+      );
+      expect(events.map(e => e.payload['n'])).toEqual([2, 3]);
+    });
+
+    it('stream() honours bounds across batches', async () => {
+      const seen: unknown[] = [];
+      for await (const e of store.stream(query.eventsOfType('StudentEnrolled').untilPosition(3n), { batchSize: 1 })) {
+        seen.push(e.payload['n']);
+      }
+      expect(seen).toEqual([1, 2, 3]);
+    });
+
+    it('append() version check honours bounds', async () => {
+      const q = query.eventsOfType('StudentEnrolled').untilPosition(4n);
+      const { version } = await store.load(q);
+      expect(version).toBe(4n);
+
+      // Position 5 is outside the bounded context — does not move the version
+      await store.append({ type: 'StudentEnrolled', payload: { n: 5 } }, { query: q, expectedVersion: version });
+      const after = await store.load(q);
+      expect(after.version).toBe(4n);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Append condition conformance cases, evaluated against the query conformance
+ * fixture events (event `n` at global_position `n`). An append under
+ * `condition` must fail exactly when `fails` is true: when some fixture event
+ * after `condition.after` matches `condition.failIfEventsMatch`.
+ */
+import { query } from '../../src/query/query-object.js';
+import type { AppendCondition } from '../../src/types.js';
+import { conformanceEvents } from './query-conformance.js';
+
+export interface AppendConditionCase {
+  name: string;
+  condition: AppendCondition;
+  fails: boolean;
+}
+
+/** Position of the last fixture event. */
+export const conformanceHead = BigInt(conformanceEvents.length);
+
+const everyEvent = query.eventsOfTypes([...new Set(conformanceEvents.map((e) => e.type))]);
+
+export const appendConditionCases: AppendConditionCase[] = [
+  {
+    name: 'no event matches and after is omitted',
+    condition: { failIfEventsMatch: query.eventsOfType('CourseArchived') },
+    fails: false,
+  },
+  {
+    name: 'a matching event exists and after is omitted',
+    condition: { failIfEventsMatch: query.eventsOfType('CourseCreated') },
+    fails: true,
+  },
+  {
+    name: 'after 0n behaves like an omitted after',
+    condition: { failIfEventsMatch: query.eventsOfType('CourseCreated'), after: 0n },
+    fails: true,
+  },
+  {
+    name: 'after equals the head position',
+    condition: { failIfEventsMatch: everyEvent, after: conformanceHead },
+    fails: false,
+  },
+  {
+    name: 'after is one before the head position',
+    condition: { failIfEventsMatch: everyEvent, after: conformanceHead - 1n },
+    fails: true,
+  },
+  {
+    name: 'after is beyond the head position',
+    condition: { failIfEventsMatch: everyEvent, after: conformanceHead + 10n },
+    fails: false,
+  },
+  {
+    name: 'after equals the last matching position',
+    condition: { failIfEventsMatch: query.eventsOfType('CourseCreated'), after: 2n },
+    fails: false,
+  },
+  {
+    name: 'a matching event lies after after',
+    condition: { failIfEventsMatch: query.eventsOfType('CourseCreated'), after: 1n },
+    fails: true,
+  },
+  {
+    name: 'later events outside the filter do not fail',
+    condition: { failIfEventsMatch: query.eventsOfType('StudentGraded').where.key('studentId').equals('s1'), after: 4n },
+    fails: false,
+  },
+  {
+    name: 'a later event carrying the tag fails',
+    condition: { failIfEventsMatch: query.eventsOfTypes(['CourseCreated', 'StudentGraded']).where.taggedWith('term:fall'), after: 1n },
+    fails: true,
+  },
+  {
+    name: 'an empty context never fails',
+    condition: { failIfEventsMatch: query.intersect(query.eventsOfType('CourseCreated'), query.eventsOfType('StudentGraded')) },
+    fails: false,
+  },
+  {
+    name: 'matching events past the query bound do not fail',
+    condition: { failIfEventsMatch: query.eventsOfType('StudentGraded').untilPosition(3n), after: 0n },
+    fails: false,
+  },
+];
@@ -0,0 +1,204 @@
+/**
+ * Query semantics conformance cases, shared by the in-memory matcher (unit)
+ * and the SQL compiler (integration). Both must select exactly `expected` —
+ * the `n` payload values of the matching fixture events, in position order.
+ */
+import { query } from '../../src/query/query-object.js';
+import type { QueryDefinition } from '../../src/query/types.js';
+
+export interface ConformanceEvent {
+  type: string;
+  payload: Record<string, unknown> & { n: number };
+  metadata: Record<string, unknown> | null;
+  tags: string[];
+  occurredAt: string;
+}
+
+export interface ConformanceCase {
+  name: string;
+  query: QueryDefinition;
+  expected: number[];
+}
+
+/** Fixture events; event `n` is appended at global_position `n`. */
+export const conformanceEvents: ConformanceEvent[] = [
+  {
+    type: 'CourseCreated',
+    payload: {
+      n: 1, courseId: 'c1', creditHours: 3, tags: ['math', 'core'],
+      prerequisites: [{ courseId: 'c0', minGrade: 60 }], address: { city: 'Zurich', zip: '8000' },
+    },
+    metadata: { tenant: 't1', correlationId: 'x' },
+    tags: ['course:c1', 'term:fall'],
+    occurredAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    type: 'CourseCreated',
+    payload: { n: 2, courseId: 'c2', creditHours: '4', tags: 'math', address: { city: 'Bern' } },
+    metadata: null,
+    tags: ['course:c2'],
+    occurredAt: '2024-01-02T00:00:00.000Z',
+  },
+  {
+    type: 'CoursePublished',
+    payload: { n: 3, courseId: 'c1', teacherId: null, items: [{ sku: 'a' }, { sku: 'b' }], gradedAt: '2024-02-30T09:00:00Z' },
+    metadata: { tenant: 't2' },
+    tags: ['course:c1'],
+    occurredAt: '2024-01-03T00:00:00.000Z',
+  },
+  {
+    type: 'StudentGraded',
+    payload: { n: 4, studentId: 's1', grade: 55.5, name: 'Zoë', gradedAt: '2024-02-10T09:00:00+02:00' },
+    metadata: { tenant: 't1' },
+    tags: ['student:s1'],
+    occurredAt: '2024-01-04T00:00:00.000Z',
+  },
+  {
+    type: 'StudentGraded',
+    payload: { n: 5, studentId: 's2', grade: 90, name: '😀', gradedAt: '2024-02-10T08:00:00Z' },
+    metadata: null,
+    tags: ['student:s2', 'term:fall'],
+    occurredAt: '2024-01-05T00:00:00.000Z',
+  },
+  {
+    type: 'Student_Graded',
+    payload: { n: 6, studentId: 's3', grade: 70, name: '￿', gradedAt: 'TBD' },
+    metadata: null,
+    tags: [],
+    occurredAt: '2024-01-06T00:00:00.000Z',
+  },
+  {
+    type: 'TeacherHired',
+    payload: { n: 7, teacherId: 't1', tags: [['nested']], grade: [90], gradedAt: '2024-02-10' },
+    metadata: { tenant: null },
+    tags: [],
+    occurredAt: '2024-01-07T00:00:00.000Z',
+  },
+];
+
+const anyEvent = (): ReturnType<typeof query.eventsOfTypes> =>
+  query.eventsOfTypes([...new Set(conformanceEvents.map((e) => e.type))]);
+
+export const conformanceCases: ConformanceCase[] = [
+  // Event types and clauses
+  { name: 'exact type', query: query.eventsOfType('CourseCreated'), expected: [1, 2] },
+  { name: 'type list', query: query.eventsOfTypes(['CoursePublished', 'TeacherHired']), expected: [3, 7] },
+  { name: 'type prefix', query: query.eventsOfTypePrefix('Course'), expected: [1, 2, 3] },
+  { name: 'type prefix with a LIKE wildcard', query: query.eventsOfTypePrefix('Student_'), expected: [6] },
+  {
+    name: 'clauses are OR-ed',
+    query: query.eventsOfType('CourseCreated').where.key('courseId').equals('c1').eventsOfType('TeacherHired'),
+    expected: [1, 7],
+  },
+  {
+    name: 'clauses sharing a filter',
+    query: query
+      .eventsOfType('CourseCreated').where.key('courseId').equals('c1')
+      .eventsOfType('CoursePublished').where.key('courseId').equals('c1')
+      .eventsOfTypePrefix('Student').where.key('courseId').equals('c1'),
+    expected: [1, 3],
+  },
+  {
+    name: 'duplicate clauses',
+    query: query
+      .eventsOfType('StudentGraded').where.key('grade').gt(60)
+      .eventsOfType('StudentGraded').where.key('grade').gt(60)
+      .eventsOfType('TeacherHired'),
+    expected: [5, 7],
+  },
+
+  // Containment
+  { name: 'equals on a nested path', query: anyEvent().where.key('address.city').equals('Zurich'), expected: [1] },
+  { name: 'equals a partial object', query: anyEvent().where.key('address').equals({ city: 'Bern' }), expected: [2] },
+  { name: 'equals ignores undefined object properties', query: anyEvent().where.key('address').equals({ city: 'Bern', zip: undefined }), expected: [2] },
+  { name: 'equals an array is array containment', query: anyEvent().where.key('tags').equals(['math']), expected: [1] },
+  { name: 'equals a scalar does not match inside an array', query: anyEvent().where.key('tags').equals('math'), expected: [2] },
+  { name: 'equals null', query: anyEvent().where.key('teacherId').equals(null), expected: [3] },
+  { name: 'equals a number', query: anyEvent().where.key('creditHours').equals(3), expected: [1] },
+  { name: 'equals a fractional number', query: anyEvent().where.key('grade').equals(55.5), expected: [4] },
+  { name: 'equals through an array index', query: anyEvent().where.key('items.1.sku').equals('b'), expected: [3] },
+  { name: 'equals through a negative array index', query: anyEvent().where.key('items.-1.sku').equals('b'), expected: [3] },
+  { name: 'equals a partial object at an array index', query: anyEvent().where.key('prerequisites.0').equals({ courseId: 'c0' }), expected: [1] },
+  { name: 'equals a scalar does not match an array at an index', query: anyEvent().where.key('tags.0').equals('nested'), expected: [] },
+  { name: 'equals null does not match a missing array element', query: anyEvent().where.key('items.5').equals(null), expected: [] },
+  { name: 'in through an array index', query: anyEvent().where.key('items.0.sku').in(['a', 'x']), expected: [3] },
+  { name: 'contains through an array index', query: anyEvent().where.key('tags.0').contains('nested'), expected: [7] },
+  { name: 'notEquals through an array index', query: anyEvent().where.key('items.0.sku').notEquals('a'), expected: [1, 2, 4, 5, 6, 7] },
+  { name: 'in', query: anyEvent().where.key('courseId').in(['c1', 'c9']), expected: [1, 3] },
+  { name: 'in an empty list', query: anyEvent().where.key('courseId').in([]), expected: [] },
+  { name: 'contains an element', query: anyEvent().where.key('tags').contains('math'), expected: [1] },
+  { name: 'contains a partial object', query: anyEvent().where.key('prerequisites').contains({ courseId: 'c0' }), expected: [1] },
+  { name: 'containsAll', query: anyEvent().where.key('tags').containsAll(['core', 'math']), expected: [1] },
+  { name: 'contains a nested array', query: anyEvent().where.key('tags').contains(['nested']), expected: [7] },
+  { name: 'contains a number', query: anyEvent().where.key('grade').contains(90), expected: [7] },
+
+  // Negation and existence
+  { name: 'notEquals includes events without the key', query: anyEvent().where.key('courseId').notEquals('c1'), expected: [2, 4, 5, 6, 7] },
+  { name: 'exists includes JSON null', query: anyEvent().where.key('teacherId').exists(), expected: [3, 7] },
+  { name: 'missing', query: anyEvent().where.key('grade').missing(), expected: [1, 2, 3] },
+  { name: 'exists through a negative array index', query: anyEvent().where.key('items.-1.sku').exists(), expected: [3] },
+
+  // Metadata
+  { name: 'metadata equals', query: anyEvent().where.metadata('tenant').equals('t1'), expected: [1, 4] },
+  { name: 'metadata notEquals includes events without metadata', query: anyEvent().where.metadata('tenant').notEquals('t1'), expected: [2, 3, 5, 6, 7] },
+  { name: 'metadata exists', query: anyEvent().where.metadata('tenant').exists(), expected: [1, 3, 4, 7] },
+
+  // Tags
+  { name: 'taggedWith one tag', query: anyEvent().where.taggedWith('course:c1'), expected: [1, 3] },
+  { name: 'taggedWith requires every tag', query: anyEvent().where.taggedWith('course:c1', 'term:fall'), expected: [1] },
+  { name: 'not taggedWith includes untagged events', query: anyEvent().where.not.taggedWith('term:fall'), expected: [2, 3, 4, 6, 7] },
+  { name: 'taggedWith ignores a payload key named tags', query: anyEvent().where.taggedWith('math'), expected: [] },
+  {
+    name: 'taggedWith combined with a payload filter',
+    query: query.eventsOfType('StudentGraded').where.taggedWith('term:fall').or.key('grade').lt(60),
+    expected: [4, 5],
+  },
+
+  // Ranges
+  { name: 'number range skips other JSON types', query: anyEvent().where.key('grade').gt(60), expected: [5, 6] },
+  { name: 'number range skips numeric strings', query: anyEvent().where.key('creditHours').gte(3), expected: [1] },
+  { name: 'string range', query: anyEvent().where.key('name').gt('Zz'), expected: [5, 6] },
+  { name: 'string range orders by code point', query: anyEvent().where.key('name').gt('￿'), expected: [5] },
+  { name: 'string range through an array index', query: anyEvent().where.key('items.0.sku').gte('a'), expected: [3] },
+  { name: 'date range honours offsets', query: anyEvent().where.key('gradedAt').lt(new Date('2024-02-10T07:30:00Z')), expected: [4] },
+  {
+    name: 'date between is inclusive',
+    query: anyEvent().where.key('gradedAt').between(new Date('2024-02-10T07:00:00Z'), new Date('2024-02-10T08:00:00Z')),
+    expected: [4, 5],
+  },
+  {
+    name: 'date range skips strings that are not full timestamps with an offset',
+    query: anyEvent().where.key('gradedAt').gt(new Date('2000-01-01T00:00:00Z')),
+    expected: [4, 5],
+  },
+  {
+    name: 'negated date range includes strings that are not timestamps',
+    query: anyEvent().where.not.key('gradedAt').gt(new Date('2000-01-01T00:00:00Z')),
+    expected: [1, 2, 3, 6, 7],
+  },
+  { name: 'number between is inclusive', query: anyEvent().where.key('grade').between(55.5, 70), expected: [4, 6] },
+  { name: 'negated range includes events without the key', query: anyEvent().where.not.key('grade').gt(60), expected: [1, 2, 3, 4, 7] },
+
+  // Nesting
+  {
+    name: 'a AND (b OR c)',
+    query: anyEvent()
+      .where.key('courseId').equals('c1')
+      .and.group((g) => g.key('tags').contains('core').or.key('items.0.sku').exists()),
+    expected: [1, 3],
+  },
+  {
+    name: 'negated group',
+    query: anyEvent().where.not.group((g) => g.key('grade').gt(60).or.metadata('tenant').equals('t1')),
+    expected: [2, 3, 7],
+  },
+
+  // Bounds
+  { name: 'position bounds', query: anyEvent().afterPosition(2n).untilPosition(5n), expected: [3, 4, 5] },
+  {
+    name: 'time window is half-open',
+    query: anyEvent().occurredBetween(new Date('2024-01-02T00:00:00Z'), new Date('2024-01-04T00:00:00Z')),
+    expected: [2, 3],
+  },
+  { name: 'bounds AND with the clauses', query: query.eventsOfType('StudentGraded').afterPosition(4n), expected: [5] },
+];
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { copyChunks, copyRow } from '../../src/store/copy-rows.js';
+
+const ID = '0190a7e2-5b1c-7d2e-8f3a-4b5c6d7e8f90';
+
+// The row after its event id field
+const afterId = (row: string) => row.slice(row.indexOf(',') + 1);
+
+describe('copyRow', () => {
+  it('writes event id, type, payload, metadata and tags as quoted CSV fields', () => {
+    expect(copyRow({ eventId: ID, type: 'X', payload: { a: 1 }, metadata: { m: true }, tags: ['t1'] }))
+      .toBe(`"${ID}","X","{""a"":1}","{""m"":true}","{""t1""}"\n`);
+  });
+
+  it('generates an event id when none is supplied', () => {
+    const [a, b] = [copyRow({ type: 'X', payload: {} }), copyRow({ type: 'X', payload: {} })];
+    expect(a).toMatch(/^"[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}",/);
+    expect(a).not.toBe(b);
+  });
+
+  it('leaves metadata unquoted and empty (NULL) when absent', () => {
+    expect(afterId(copyRow({ type: 'X', payload: {} }))).toBe('"X","{}",,"{}"\n');
+  });
+
+  it('keeps commas, quotes and newlines inside quoted fields', () => {
+    expect(afterId(copyRow({ type: 'a,"b"', payload: { s: 'line\nbreak' } }))).toBe('"a,""b""","{""s"":""line\\nbreak""}",,"{}"\n');
+  });
+
+  it('escapes quotes and backslashes in tags for the array literal', () => {
+    expect(afterId(copyRow({ type: 'X', payload: {}, tags: ['a"b', 'c\\d', 'e,f'] })))
+      .toBe('"X","{}",,"{""a\\""b"",""c\\\\d"",""e,f""}"\n');
+  });
+
+  it('serialises payload Dates as JSON strings', () => {
+    expect(copyRow({ type: 'X', payload: { at: new Date('2024-01-01T00:00:00Z') } }))
+      .toContain('""at"":""2024-01-01T00:00:00.000Z""');
+  });
+});
+
+describe('copyChunks', () => {
+  it('groups rows into chunks of a thousand', () => {
+    const events = Array.from({ length: 2001 }, (_, i) => ({ type: 'X', payload: { i } }));
+    const chunks = [...copyChunks(events)];
+    expect(chunks).toHaveLength(3);
+    expect(chunks.join('').split('\n')).toHaveLength(2002);
+  });
+
+  it('yields nothing for no events', () => {
+    expect([...copyChunks([])]).toEqual([]);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { ConcurrencyError, EventStoreError } from '../../src/errors.js';
+import { ConcurrencyError, EventStoreError, InvalidQueryError } from '../../src/errors.js';
 
 describe('ConcurrencyError', () => {
   it('constructs without error', () => {
@@ -61,6 +61,16 @@ describe('ConcurrencyError', () => {
     expect(err.expectedVersion).toBe(big);
     expect(err.actualVersion).toBe(big + 1n);
   });
+
+  it('has no conditionIndex by default', () => {
+    expect(new ConcurrencyError(1n, 2n).conditionIndex).toBeUndefined();
+  });
+
+  it('stores conditionIndex and names it in the default message', () => {
+    const err = new ConcurrencyError(1n, 2n, undefined, 3);
+    expect(err.conditionIndex).toBe(3);
+    expect(err.message).toContain('condition 3');
+  });
 });
 
 describe('EventStoreError', () => {
@@ -109,3 +119,22 @@ describe('EventStoreError', () => {
     expect(err.stack).toBeDefined();
   });
 });
+
+describe('InvalidQueryError', () => {
+  it('has correct name', () => {
+    const err = new InvalidQueryError('$.version', 'unsupported version 2');
+    expect(err.name).toBe('InvalidQueryError');
+  });
+
+  it('is instanceof InvalidQueryError and Error', () => {
+    const err = new InvalidQueryError('$', 'must be an object');
+    expect(err).toBeInstanceOf(InvalidQueryError);
+    expect(err).toBeInstanceOf(Error);
+  });
+
+  it('stores the path and names it in the message', () => {
+    const err = new InvalidQueryError('$.clauses[0].type', 'must be a non-empty string');
+    expect(err.path).toBe('$.clauses[0].type');
+    expect(err.message).toBe('Invalid query at $.clauses[0].type: must be a non-empty string');
+  });
+});
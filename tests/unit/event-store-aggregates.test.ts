@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import pg from 'pg';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import { EventStoreError } from '../../src/errors.js';
+import { query } from '../../src/query/query-object.js';
+
+function makeMockPool(row: object) {
+  return {
+    query: vi.fn().mockResolvedValue({ rows: [row], rowCount: 1 }),
+    connect: vi.fn(),
+    end: vi.fn(),
+  };
+}
+
+function makeFailingPool() {
+  return {
+    query: vi.fn().mockRejectedValue(new Error('connection lost')),
+    connect: vi.fn(),
+    end: vi.fn(),
+  };
+}
+
+describe('PostgresEventStore.exists()', () => {
+  it('returns the found column', async () => {
+    const pool = makeMockPool({ found: true });
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    expect(await store.exists(query.eventsOfType('X'))).toBe(true);
+    const [sql, params] = pool.query.mock.calls[0]! as [string, unknown[]];
+    expect(sql).toContain('SELECT EXISTS (');
+    expect(params).toEqual(['X']);
+  });
+
+  it('wraps pool.query errors in EventStoreError', async () => {
+    const store = new PostgresEventStore({ pool: makeFailingPool() as unknown as pg.Pool });
+    await expect(store.exists(query.eventsOfType('X'))).rejects.toBeInstanceOf(EventStoreError);
+  });
+});
+
+describe('PostgresEventStore.count()', () => {
+  it('converts the bigint count string to a number', async () => {
+    const pool = makeMockPool({ count: '12' });
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    expect(await store.count(query.eventsOfType('X'))).toBe(12);
+    expect(pool.query.mock.calls[0]![0]).toContain('SELECT COUNT(*) AS count');
+  });
+
+  it('wraps pool.query errors in EventStoreError', async () => {
+    const store = new PostgresEventStore({ pool: makeFailingPool() as unknown as pg.Pool });
+    await expect(store.count(query.eventsOfType('X'))).rejects.toBeInstanceOf(EventStoreError);
+  });
+});
+
+describe('PostgresEventStore.headPosition()', () => {
+  it('returns MAX(global_position) as a bigint', async () => {
+    const pool = makeMockPool({ head: '9007199254740993' });
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    expect(await store.headPosition()).toBe(9007199254740993n);
+    expect(pool.query.mock.calls[0]![0]).toBe('SELECT COALESCE(MAX(global_position), 0) AS head FROM events');
+  });
+
+  it('wraps pool.query errors in EventStoreError', async () => {
+    const store = new PostgresEventStore({ pool: makeFailingPool() as unknown as pg.Pool });
+    await expect(store.headPosition()).rejects.toBeInstanceOf(EventStoreError);
+  });
+});
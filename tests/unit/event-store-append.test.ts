@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import pg from 'pg';
 import { PostgresEventStore } from '../../src/store/event-store.js';
 import { EventStoreError } from '../../src/errors.js';
+import { query } from '../../src/query/query-object.js';
 
 // Mock client that records calls
 function makeRow(overrides: Partial<Record<string, unknown>> = {}) {
@@ -11,6 +12,7 @@ function makeRow(overrides: Partial<Record<string, unknown>> = {}) {
     type: 'TestEvent',
     payload: { x: 1 },
     metadata: null,
+    tags: [],
     occurred_at: new Date('2024-01-01T00:00:00Z'),
     ...overrides,
   };
@@ -21,6 +23,9 @@ describe('PostgresEventStore.append() (unit)', () => {
     const mockClient = {
       query: vi.fn()
         .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
         .mockResolvedValueOnce({ rows: [makeRow({ global_position: '1' })], rowCount: 1 }) // INSERT
         .mockResolvedValueOnce({}), // COMMIT
       release: vi.fn(),
@@ -33,13 +38,17 @@ describe('PostgresEventStore.append() (unit)', () => {
     expect(result[0]!.globalPosition).toBe(1n);
   });
 
-  it('returns StoredEvents in insert order for multiple events', async () => {
+  it('inserts multiple events with one statement and returns them in position order', async () => {
     const mockClient = {
       query: vi.fn()
         .mockResolvedValueOnce({}) // BEGIN
-        .mockResolvedValueOnce({ rows: [makeRow({ global_position: '1' })], rowCount: 1 })
-        .mockResolvedValueOnce({ rows: [makeRow({ global_position: '2' })], rowCount: 1 })
-        .mockResolvedValueOnce({ rows: [makeRow({ global_position: '3' })], rowCount: 1 })
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
+        .mockResolvedValueOnce({
+          rows: [makeRow({ global_position: '3' }), makeRow({ global_position: '1' }), makeRow({ global_position: '2' })],
+          rowCount: 3,
+        })
         .mockResolvedValueOnce({}), // COMMIT
       release: vi.fn(),
     };
@@ -50,14 +59,34 @@ describe('PostgresEventStore.append() (unit)', () => {
       { type: 'B', payload: {} },
       { type: 'C', payload: {} },
     ]);
-    expect(result).toHaveLength(3);
     expect(result.map(e => e.globalPosition)).toEqual([1n, 2n, 3n]);
+    const [sql, params] = mockClient.query.mock.calls[4]! as [string, unknown[]];
+    expect(sql).toContain('WITH ORDINALITY');
+    expect(params[0]).toEqual([null, null, null]);
+    expect(params[1]).toEqual(['A', 'B', 'C']);
+    expect(mockClient.query.mock.calls[5]![0]).toBe('COMMIT');
+  });
+
+  it('skips the INSERT for an empty event list', async () => {
+    const mockClient = {
+      query: vi.fn().mockResolvedValue({}),
+      release: vi.fn(),
+    };
+    const pool = { connect: vi.fn().mockResolvedValue(mockClient) } as unknown as pg.Pool;
+    const store = new PostgresEventStore({ pool });
+    expect(await store.append([])).toEqual([]);
+    const allSql = mockClient.query.mock.calls.map(c => String(c[0]));
+    expect(allSql.some(s => s.includes('INSERT'))).toBe(false);
+    expect(allSql).toContain('COMMIT');
   });
 
   it('passes null for metadata when metadata is undefined', async () => {
     const mockClient = {
       query: vi.fn()
         .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
         .mockResolvedValueOnce({ rows: [makeRow()], rowCount: 1 })
         .mockResolvedValueOnce({}), // COMMIT
       release: vi.fn(),
@@ -65,16 +94,19 @@ describe('PostgresEventStore.append() (unit)', () => {
     const pool = { connect: vi.fn().mockResolvedValue(mockClient) } as unknown as pg.Pool;
     const store = new PostgresEventStore({ pool });
     await store.append({ type: 'X', payload: {} }); // no metadata
-    // The INSERT call is the second query call (index 1)
-    const insertCall = mockClient.query.mock.calls[1]!;
+    // The INSERT call follows BEGIN, two SET LOCALs and the lock statement (index 4)
+    const insertCall = mockClient.query.mock.calls[4]!;
     const params = insertCall[1] as unknown[];
-    expect(params[2]).toBeNull(); // metadata param should be null
+    expect(params[3]).toEqual([null]); // metadata param should be null
   });
 
   it('passes metadata object to INSERT when provided', async () => {
     const mockClient = {
       query: vi.fn()
-        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
         .mockResolvedValueOnce({ rows: [makeRow({ metadata: { key: 'val' } })], rowCount: 1 })
         .mockResolvedValueOnce({}),
       release: vi.fn(),
@@ -82,15 +114,57 @@ describe('PostgresEventStore.append() (unit)', () => {
     const pool = { connect: vi.fn().mockResolvedValue(mockClient) } as unknown as pg.Pool;
     const store = new PostgresEventStore({ pool });
     await store.append({ type: 'X', payload: {}, metadata: { key: 'val' } });
-    const insertCall = mockClient.query.mock.calls[1]!;
+    const insertCall = mockClient.query.mock.calls[4]!;
     const params = insertCall[1] as unknown[];
-    expect(params[2]).toEqual({ key: 'val' });
+    expect(params[2]).toEqual(['{}']);
+    expect(params[3]).toEqual(['{"key":"val"}']);
+  });
+
+  it('passes an empty tag list when tags are undefined', async () => {
+    const mockClient = {
+      query: vi.fn()
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
+        .mockResolvedValueOnce({ rows: [makeRow()], rowCount: 1 })
+        .mockResolvedValueOnce({}),
+      release: vi.fn(),
+    };
+    const pool = { connect: vi.fn().mockResolvedValue(mockClient) } as unknown as pg.Pool;
+    const store = new PostgresEventStore({ pool });
+    await store.append({ type: 'X', payload: {} });
+    const params = mockClient.query.mock.calls[4]![1] as unknown[];
+    expect(params[4]).toEqual(['[]']);
+  });
+
+  it('passes tags to INSERT and returns them', async () => {
+    const mockClient = {
+      query: vi.fn()
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
+        .mockResolvedValueOnce({ rows: [makeRow({ tags: ['course:c1'] })], rowCount: 1 })
+        .mockResolvedValueOnce({}),
+      release: vi.fn(),
+    };
+    const pool = { connect: vi.fn().mockResolvedValue(mockClient) } as unknown as pg.Pool;
+    const store = new PostgresEventStore({ pool });
+    const [stored] = await store.append({ type: 'X', payload: {}, tags: ['course:c1'] });
+    const [sql, params] = mockClient.query.mock.calls[4]! as [string, unknown[]];
+    expect(sql).toContain('$5::jsonb[]');
+    expect(params[4]).toEqual(['["course:c1"]']);
+    expect(stored!.tags).toEqual(['course:c1']);
   });
 
   it('uses RETURNING in INSERT SQL', async () => {
     const mockClient = {
       query: vi.fn()
-        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
         .mockResolvedValueOnce({ rows: [makeRow()], rowCount: 1 })
         .mockResolvedValueOnce({}),
       release: vi.fn(),
@@ -98,14 +172,17 @@ describe('PostgresEventStore.append() (unit)', () => {
     const pool = { connect: vi.fn().mockResolvedValue(mockClient) } as unknown as pg.Pool;
     const store = new PostgresEventStore({ pool });
     await store.append({ type: 'X', payload: {} });
-    const insertSql = mockClient.query.mock.calls[1]![0] as string;
+    const insertSql = mockClient.query.mock.calls[4]![0] as string;
     expect(insertSql).toMatch(/RETURNING/i);
   });
 
   it('calls BEGIN and COMMIT exactly once per append', async () => {
     const mockClient = {
       query: vi.fn()
-        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
         .mockResolvedValueOnce({ rows: [makeRow()], rowCount: 1 })
         .mockResolvedValueOnce({}),
       release: vi.fn(),
@@ -122,6 +199,9 @@ describe('PostgresEventStore.append() (unit)', () => {
     const mockClient = {
       query: vi.fn()
         .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
         .mockRejectedValueOnce(new Error('constraint violation')) // INSERT fails
         .mockResolvedValueOnce({}), // ROLLBACK
       release: vi.fn(),
@@ -134,3 +214,90 @@ describe('PostgresEventStore.append() (unit)', () => {
     expect(allSql).not.toContain('COMMIT');
   });
 });
+
+describe('PostgresEventStore.append() with client-supplied event ids (unit)', () => {
+  const ID_1 = '0190a7e2-5b1c-7d2e-8f3a-4b5c6d7e8f01';
+  const ID_2 = '0190a7e2-5b1c-7d2e-8f3a-4b5c6d7e8f02';
+
+  function makeStore(existingRows: unknown[]) {
+    const mockClient = {
+      query: vi.fn()
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // SET LOCAL lock_timeout
+        .mockResolvedValueOnce({}) // SET LOCAL statement_timeout
+        .mockResolvedValueOnce({}) // advisory locks
+        .mockResolvedValueOnce({ rows: existingRows, rowCount: existingRows.length }) // stored ids
+        .mockResolvedValue({ rows: [makeRow({ event_id: ID_1 })], rowCount: 1 }),
+      release: vi.fn(),
+    };
+    const pool = { connect: vi.fn().mockResolvedValue(mockClient) } as unknown as pg.Pool;
+    return { mockClient, store: new PostgresEventStore({ pool }) };
+  }
+
+  it('passes the supplied ids to the INSERT', async () => {
+    const { mockClient, store } = makeStore([]);
+    await store.append([{ type: 'X', payload: {}, eventId: ID_1 }, { type: 'X', payload: {} }]);
+    const [lookupSql, lookupParams] = mockClient.query.mock.calls[4]! as [string, unknown[]];
+    expect(lookupSql).toContain('event_id = ANY');
+    expect(lookupParams).toEqual([[ID_1]]);
+    const params = mockClient.query.mock.calls[5]![1] as unknown[];
+    expect(params[0]).toEqual([ID_1, null]);
+  });
+
+  it('returns the stored events in the order passed in when all ids are stored', async () => {
+    const { mockClient, store } = makeStore([
+      makeRow({ global_position: '7', event_id: ID_2, type: 'X', payload: {} }),
+      makeRow({ global_position: '6', event_id: ID_1, type: 'X', payload: {} }),
+    ]);
+    const result = await store.append(
+      [{ type: 'X', payload: {}, eventId: ID_1.toUpperCase() }, { type: 'X', payload: {}, eventId: ID_2 }],
+      { query: query.eventsOfType('X'), expectedVersion: 0n },
+    );
+    expect(result.map((e) => e.globalPosition)).toEqual([6n, 7n]);
+    const allSql = mockClient.query.mock.calls.map(c => String(c[0]));
+    expect(allSql.some(s => s.includes('INSERT') || s.includes('COALESCE(MAX'))).toBe(false);
+    expect(allSql).toContain('ROLLBACK');
+  });
+
+  it('throws EventStoreError when only some of the events are stored', async () => {
+    const { mockClient, store } = makeStore([makeRow({ event_id: ID_1 })]);
+    await expect(store.append([
+      { type: 'X', payload: {}, eventId: ID_1 },
+      { type: 'X', payload: {}, eventId: ID_2 },
+    ])).rejects.toBeInstanceOf(EventStoreError);
+    expect(mockClient.query.mock.calls.map(c => String(c[0]))).not.toContain('COMMIT');
+  });
+
+  it('compares stored events as jsonb does: key order and a missing metadata or tag list do not count', async () => {
+    const { store } = makeStore([makeRow({ event_id: ID_1, type: 'X', payload: { b: [1, { c: null }], a: 'x' } })]);
+    const result = await store.append({ type: 'X', payload: { a: 'x', b: [1, { c: null }] }, eventId: ID_1 });
+    expect(result.map((e) => e.eventId)).toEqual([ID_1]);
+  });
+
+  it.each([
+    ['type', { type: 'Y', payload: {} }],
+    ['payload', { type: 'X', payload: { a: 1 } }],
+    ['metadata', { type: 'X', payload: {}, metadata: { m: 1 } }],
+    ['tags', { type: 'X', payload: {}, tags: ['t'] }],
+  ])('throws EventStoreError when a stored id holds a different %s', async (_field, event) => {
+    const { mockClient, store } = makeStore([makeRow({ event_id: ID_1, type: 'X', payload: {} })]);
+    await expect(store.append({ ...event, eventId: ID_1 })).rejects.toThrow(`event ${ID_1} is already stored with a different`);
+    expect(mockClient.query.mock.calls.map(c => String(c[0]))).not.toContain('COMMIT');
+  });
+
+  it('throws EventStoreError when a retried batch adds an event without an id', async () => {
+    const { store } = makeStore([makeRow({ event_id: ID_1 })]);
+    await expect(store.append([{ type: 'X', payload: {}, eventId: ID_1 }, { type: 'X', payload: {} }]))
+      .rejects.toBeInstanceOf(EventStoreError);
+  });
+
+  it('rejects malformed and repeated ids before connecting', async () => {
+    const { mockClient, store } = makeStore([]);
+    await expect(store.append({ type: 'X', payload: {}, eventId: 'order-1' })).rejects.toThrow('eventId must be a UUID');
+    await expect(store.append([
+      { type: 'X', payload: {}, eventId: ID_1 },
+      { type: 'X', payload: {}, eventId: ID_1.toUpperCase() },
+    ])).rejects.toThrow('appears more than once');
+    expect(mockClient.query).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,12 @@
 import { describe, it, expect, vi } from 'vitest';
 import pg from 'pg';
 import { PostgresEventStore } from '../../src/store/event-store.js';
-import { ConcurrencyError } from '../../src/errors.js';
+import { ConcurrencyError, EventStoreError } from '../../src/errors.js';
 import { query } from '../../src/query/query-object.js';
+import { matches } from '../../src/query/matcher.js';
+import type { StoredEvent } from '../../src/types.js';
+import { conformanceEvents } from '../shared/query-conformance.js';
+import { appendConditionCases } from '../shared/append-condition-conformance.js';
 
 function makeStoredRow(pos = '1') {
   return {
@@ -37,7 +41,7 @@ describe('PostgresEventStore append() with advisory locks', () => {
       {},
       {},
       {},
-      { rows: [{ acquired: true }], rowCount: 1 },
+      { rows: [{}], rowCount: 1 },
       { rows: [{ max_pos: '0' }], rowCount: 1 },
       { rows: [makeStoredRow()], rowCount: 1 },
       {},
@@ -58,7 +62,7 @@ describe('PostgresEventStore append() with advisory locks', () => {
       {},
       {},
       {},
-      { rows: [{ acquired: true }], rowCount: 1 },
+      { rows: [{}], rowCount: 1 },
       { rows: [{ max_pos: '0' }], rowCount: 1 },
       { rows: [makeStoredRow()], rowCount: 1 },
       {},
@@ -70,19 +74,44 @@ describe('PostgresEventStore append() with advisory locks', () => {
       { query: query.eventsOfType('X'), expectedVersion: 0n }
     );
     const sqls = client._calls.map(([sql]) => sql);
-    const lockIdx = sqls.findIndex(s => s.includes('pg_try_advisory_xact_lock'));
+    const lockIdx = sqls.findIndex(s => s.includes('pg_advisory_xact_lock'));
     const versionIdx = sqls.findIndex(s => s.includes('COALESCE(MAX'));
     expect(lockIdx).toBeGreaterThan(-1);
     expect(versionIdx).toBeGreaterThan(-1);
     expect(lockIdx).toBeLessThan(versionIdx);
   });
 
-  it('throws ConcurrencyError and calls ROLLBACK when advisory lock not acquired', async () => {
+  it('passes the lock set keys and modes as two parallel arrays', async () => {
     const client = makeMockClient([
       {},
       {},
       {},
-      { rows: [{ acquired: false }], rowCount: 1 },
+      { rows: [{}], rowCount: 1 },
+      { rows: [{ max_pos: '0' }], rowCount: 1 },
+      { rows: [makeStoredRow()], rowCount: 1 },
+      {},
+    ]);
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as pg.Pool;
+    const store = new PostgresEventStore({ pool });
+    await store.append(
+      { type: 'X', payload: { id: 'x1' } },
+      { query: query.eventsOfType('X').where.key('id').equals('x1'), expectedVersion: 0n }
+    );
+    const lockCall = client._calls.find(([sql]) => sql.includes('pg_advisory_xact_lock'))!;
+    expect(lockCall[0]).toContain('hashtextextended');
+    expect(lockCall[0]).toContain('ORDER BY');
+    expect(lockCall[1]).toEqual([
+      ['["any"]', '["type","X"]', '["value","X","id","x1"]'],
+      [false, false, true],
+    ]);
+  });
+
+  it('throws ConcurrencyError and calls ROLLBACK when the locks time out', async () => {
+    const client = makeMockClient([
+      {},
+      {},
+      {},
+      Object.assign(new Error('canceling statement due to lock timeout'), { code: '55P03' }),
       {},
     ]);
     const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as pg.Pool;
@@ -100,7 +129,7 @@ describe('PostgresEventStore append() with advisory locks', () => {
       {},
       {},
       {},
-      { rows: [{ acquired: true }], rowCount: 1 },
+      { rows: [{}], rowCount: 1 },
       { rows: [{ max_pos: '5' }], rowCount: 1 },
       { rows: [makeStoredRow('6')], rowCount: 1 },
       {},
@@ -121,7 +150,7 @@ describe('PostgresEventStore append() with advisory locks', () => {
       {},
       {},
       {},
-      { rows: [{ acquired: true }], rowCount: 1 },
+      { rows: [{}], rowCount: 1 },
       { rows: [{ max_pos: '5' }], rowCount: 1 },
       {},
     ]);
@@ -141,7 +170,7 @@ describe('PostgresEventStore append() with advisory locks', () => {
       {},
       {},
       {},
-      { rows: [{ acquired: true }], rowCount: 1 },
+      { rows: [{}], rowCount: 1 },
       { rows: [{ max_pos: '5' }], rowCount: 1 },
       {},
     ]);
@@ -160,7 +189,7 @@ describe('PostgresEventStore append() with advisory locks', () => {
       {},
       {},
       {},
-      { rows: [{ acquired: true }], rowCount: 1 },
+      { rows: [{}], rowCount: 1 },
       { rows: [{ max_pos: '0' }], rowCount: 1 },
       { rows: [makeStoredRow()], rowCount: 1 },
       {},
@@ -178,9 +207,12 @@ describe('PostgresEventStore append() with advisory locks', () => {
     expect(versionCheckCall![1]).toContain('{"customerId":"c1"}');
   });
 
-  it('skips lock and version check when no options provided', async () => {
+  it('locks the events but skips the version check when no options provided', async () => {
     const client = makeMockClient([
       {},
+      {},
+      {},
+      { rows: [{}], rowCount: 1 },
       { rows: [makeStoredRow()], rowCount: 1 },
       {},
     ]);
@@ -188,8 +220,166 @@ describe('PostgresEventStore append() with advisory locks', () => {
     const store = new PostgresEventStore({ pool });
     await store.append({ type: 'X', payload: {} });
     const sqls = client._calls.map(([sql]) => sql);
-    expect(sqls.some(s => s.includes('lock_timeout'))).toBe(false);
-    expect(sqls.some(s => s.includes('pg_try_advisory_xact_lock'))).toBe(false);
+    expect(sqls.some(s => s.includes('lock_timeout'))).toBe(true);
+    expect(sqls.some(s => s.includes('pg_advisory_xact_lock'))).toBe(true);
     expect(sqls.some(s => s.includes('COALESCE(MAX'))).toBe(false);
   });
+
+  it('wraps a lock timeout without options in EventStoreError', async () => {
+    const client = makeMockClient([
+      {},
+      {},
+      {},
+      Object.assign(new Error('canceling statement due to lock timeout'), { code: '55P03' }),
+      {},
+    ]);
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as pg.Pool;
+    const store = new PostgresEventStore({ pool });
+    await expect(store.append({ type: 'X', payload: {} })).rejects.toBeInstanceOf(EventStoreError);
+    expect(client._calls.map(([sql]) => sql)).toContain('ROLLBACK');
+  });
+});
+
+describe('PostgresEventStore append() with an AppendCondition', () => {
+  function storeWithVersion(maxPos: string) {
+    const client = makeMockClient([
+      {},
+      {},
+      {},
+      { rows: [{}], rowCount: 1 },
+      { rows: [{ max_pos: maxPos }], rowCount: 1 },
+      { rows: [makeStoredRow()], rowCount: 1 },
+      {},
+    ]);
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as pg.Pool;
+    return { client, store: new PostgresEventStore({ pool }) };
+  }
+
+  const fixture = conformanceEvents.map((e, i) => ({
+    globalPosition: BigInt(i + 1), eventId: `e${i + 1}`, type: e.type, payload: e.payload,
+    metadata: e.metadata, tags: e.tags, occurredAt: new Date(e.occurredAt),
+  }) as StoredEvent);
+
+  // The matcher stands in for the version check query over the fixture events
+  it.each(appendConditionCases)('$name', async ({ condition, fails }) => {
+    const version = fixture.filter((e) => matches(condition.failIfEventsMatch, e)).at(-1)?.globalPosition ?? 0n;
+    const { client, store } = storeWithVersion(String(version));
+    const outcome = store.append({ type: 'Appended', payload: {} }, condition);
+    if (fails) {
+      await expect(outcome).rejects.toBeInstanceOf(ConcurrencyError);
+      expect(client._calls.map(([sql]) => sql)).not.toContain('COMMIT');
+    } else {
+      await expect(outcome).resolves.toHaveLength(1);
+    }
+  });
+
+  it('reports after and the matching position on failure', async () => {
+    const { store } = storeWithVersion('7');
+    const err = await store.append(
+      { type: 'X', payload: {} },
+      { failIfEventsMatch: query.eventsOfType('X'), after: 5n }
+    ).catch(e => e) as ConcurrencyError;
+    expect(err).toBeInstanceOf(ConcurrencyError);
+    expect(err.expectedVersion).toBe(5n);
+    expect(err.actualVersion).toBe(7n);
+    expect(err.message).toContain('failIfEventsMatch');
+  });
+
+  it('locks and checks the failIfEventsMatch query', async () => {
+    const { client, store } = storeWithVersion('0');
+    await store.append(
+      { type: 'OrderCreated', payload: {} },
+      { failIfEventsMatch: query.eventsOfType('OrderCreated').where.key('customerId').equals('c1') }
+    );
+    const lockCall = client._calls.find(([sql]) => sql.includes('pg_advisory_xact_lock'))!;
+    expect(lockCall[1]![0]).toContain('["value","OrderCreated","customerId","c1"]');
+    const versionCheckCall = client._calls.find(([sql]) => sql.includes('COALESCE(MAX'))!;
+    expect(versionCheckCall[1]).toContain('{"customerId":"c1"}');
+  });
+
+  it('keeps the exact version check for AppendOptions ahead of the store', async () => {
+    const { store } = storeWithVersion('3');
+    await expect(
+      store.append({ type: 'X', payload: {} }, { query: query.eventsOfType('X'), expectedVersion: 5n })
+    ).rejects.toBeInstanceOf(ConcurrencyError);
+  });
+});
+
+describe('PostgresEventStore append() with several conditions', () => {
+  function storeWithVersions(...maxPos: string[]) {
+    const client = makeMockClient([
+      {},
+      {},
+      {},
+      { rows: [{}], rowCount: 1 },
+      ...maxPos.map((pos) => ({ rows: [{ max_pos: pos }], rowCount: 1 })),
+      { rows: [makeStoredRow()], rowCount: 1 },
+      {},
+    ]);
+    const pool = { connect: vi.fn().mockResolvedValue(client) } as unknown as pg.Pool;
+    return { client, store: new PostgresEventStore({ pool }) };
+  }
+
+  const course = query.eventsOfType('CourseCancelled').where.key('courseId').equals('c1');
+  const enrollments = query.eventsOfType('StudentEnrolled').where.key('courseId').equals('c1');
+
+  it('locks every condition query in one statement', async () => {
+    const { client, store } = storeWithVersions('0', '0');
+    await store.append({ type: 'StudentEnrolled', payload: { courseId: 'c1' } }, [
+      { query: course, expectedVersion: 0n },
+      { query: enrollments, expectedVersion: 0n },
+    ]);
+    const lockCalls = client._calls.filter(([sql]) => sql.includes('pg_advisory_xact_lock'));
+    expect(lockCalls).toHaveLength(1);
+    expect(lockCalls[0]![1]![0]).toEqual(expect.arrayContaining([
+      '["value","CourseCancelled","courseId","c1"]',
+      '["value","StudentEnrolled","courseId","c1"]',
+    ]));
+  });
+
+  it('checks every condition before inserting', async () => {
+    const { client, store } = storeWithVersions('4', '9');
+    await store.append({ type: 'StudentEnrolled', payload: { courseId: 'c1' } }, [
+      { query: course, expectedVersion: 4n },
+      { failIfEventsMatch: enrollments, after: 9n },
+    ]);
+    const sqls = client._calls.map(([sql]) => sql);
+    const versionIdxs = sqls.flatMap((s, i) => (s.includes('COALESCE(MAX') ? [i] : []));
+    expect(versionIdxs).toHaveLength(2);
+    expect(versionIdxs[1]).toBeLessThan(sqls.findIndex(s => s.includes('INSERT')));
+    expect(sqls).toContain('COMMIT');
+  });
+
+  it('reports the index of the first failed condition and stops checking', async () => {
+    const { client, store } = storeWithVersions('4', '7', '0');
+    const err = await store.append({ type: 'StudentEnrolled', payload: { courseId: 'c1' } }, [
+      { query: course, expectedVersion: 4n },
+      { query: enrollments, expectedVersion: 5n },
+      { failIfEventsMatch: query.eventsOfType('Z') },
+    ]).catch(e => e) as ConcurrencyError;
+    expect(err).toBeInstanceOf(ConcurrencyError);
+    expect(err.conditionIndex).toBe(1);
+    expect(err.expectedVersion).toBe(5n);
+    expect(err.actualVersion).toBe(7n);
+    expect(err.message).toContain('condition 1');
+    const sqls = client._calls.map(([sql]) => sql);
+    expect(sqls.filter(s => s.includes('COALESCE(MAX'))).toHaveLength(2);
+    expect(sqls).toContain('ROLLBACK');
+    expect(sqls.some(s => s.includes('INSERT'))).toBe(false);
+  });
+
+  it('names the failed AppendCondition by index', async () => {
+    const { store } = storeWithVersions('3');
+    const err = await store.append({ type: 'X', payload: {} }, [
+      { failIfEventsMatch: query.eventsOfType('X'), after: 2n },
+    ]).catch(e => e) as ConcurrencyError;
+    expect(err.conditionIndex).toBe(0);
+    expect(err.message).toContain('Append condition 0 failed');
+  });
+
+  it('treats an empty list as an unconditional append', async () => {
+    const { client, store } = storeWithVersions();
+    await store.append({ type: 'X', payload: {} }, []);
+    expect(client._calls.some(([sql]) => sql.includes('COALESCE(MAX'))).toBe(false);
+  });
 });
@@ -99,3 +99,99 @@ describe('PostgresEventStore.load()', () => {
     expect(result.events.map(e => e.globalPosition)).toEqual([5n, 10n, 15n]);
   });
 });
+
+describe('PostgresEventStore.loadLast()', () => {
+  it('reads n rows newest first and returns them in position order', async () => {
+    const pool = makeMockPool([makeRow({ global_position: '30' }), makeRow({ global_position: '20' })]);
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    const result = await store.loadLast(query.eventsOfType('TestEvent'), 2);
+    expect(result.events.map(e => e.globalPosition)).toEqual([20n, 30n]);
+    expect(result.version).toBe(30n);
+    const [calledSql, calledParams] = pool.query.mock.calls[0]!;
+    expect(calledSql).toContain('ORDER BY global_position DESC');
+    expect(calledParams).toEqual(['TestEvent', 2]);
+  });
+
+  it('returns empty events and version 0n when no rows', async () => {
+    const store = new PostgresEventStore({ pool: makeMockPool([]) as unknown as pg.Pool });
+    expect(await store.loadLast(query.eventsOfType('X'), 5)).toEqual({ events: [], version: 0n });
+  });
+
+  it('n = 0 returns no events but still the version', async () => {
+    const pool = makeMockPool([makeRow({ global_position: '42' })]);
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    expect(await store.loadLast(query.eventsOfType('TestEvent'), 0)).toEqual({ events: [], version: 42n });
+    expect(pool.query.mock.calls[0]![1]).toEqual(['TestEvent', 1]);
+  });
+
+  it('rejects a negative or fractional n', async () => {
+    const pool = makeMockPool([]);
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    await expect(store.loadLast(query.eventsOfType('X'), -1)).rejects.toThrow('loadLast() requires a non-negative integer, got -1');
+    await expect(store.loadLast(query.eventsOfType('X'), 1.5)).rejects.toThrow(/non-negative integer/);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('wraps pool.query errors in EventStoreError', async () => {
+    const pool = {
+      query: vi.fn().mockRejectedValue(new Error('DB connection failed')),
+      connect: vi.fn(),
+      end: vi.fn(),
+    };
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    await expect(store.loadLast(query.eventsOfType('X'), 1)).rejects.toBeInstanceOf(EventStoreError);
+  });
+});
+
+describe('PostgresEventStore.loadMany()', () => {
+  function makeMockClient(results: object[][]) {
+    const query = vi.fn().mockResolvedValue({});
+    for (const rows of results) {
+      query.mockImplementationOnce((sql: string) => Promise.resolve(
+        sql.startsWith('BEGIN') ? {} : { rows, rowCount: rows.length },
+      ));
+    }
+    return { query, release: vi.fn() };
+  }
+
+  it('runs every query inside one REPEATABLE READ transaction', async () => {
+    const client = makeMockClient([[], [makeRow({ global_position: '2' })], [makeRow({ global_position: '5' })]]);
+    const pool = { query: vi.fn(), connect: vi.fn().mockResolvedValue(client), end: vi.fn() };
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    const result = await store.loadMany({ a: query.eventsOfType('A'), b: query.eventsOfType('B') });
+
+    const statements = client.query.mock.calls.map((call) => call[0] as string);
+    expect(statements[0]).toBe('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+    expect(statements[1]).toContain('FROM events');
+    expect(statements[2]).toContain('FROM events');
+    expect(statements[3]).toBe('COMMIT');
+    expect(pool.connect).toHaveBeenCalledOnce();
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(client.release).toHaveBeenCalledOnce();
+    expect(result.a.version).toBe(2n);
+    expect(result.b.version).toBe(5n);
+    expect(result.b.events[0]!.globalPosition).toBe(5n);
+  });
+
+  it('returns an empty object without connecting when given no queries', async () => {
+    const pool = { query: vi.fn(), connect: vi.fn(), end: vi.fn() };
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    await expect(store.loadMany({})).resolves.toEqual({});
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it('rolls back, releases the client and wraps errors in EventStoreError', async () => {
+    const client = {
+      query: vi.fn()
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error('DB connection failed'))
+        .mockResolvedValue({}),
+      release: vi.fn(),
+    };
+    const pool = { query: vi.fn(), connect: vi.fn().mockResolvedValue(client), end: vi.fn() };
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    await expect(store.loadMany({ a: query.eventsOfType('A') })).rejects.toBeInstanceOf(EventStoreError);
+    expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import pg from 'pg';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import { query } from '../../src/query/query-object.js';
+
+function makeMockPool() {
+  const client = {
+    query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+    release: vi.fn(),
+  };
+  const pool = {
+    query: vi.fn(),
+    connect: vi.fn().mockResolvedValue(client),
+    end: vi.fn(),
+  };
+  return { pool, client };
+}
+
+describe('PostgresEventStore with preparedStatements', () => {
+  it('runs reads as named statements on a checked-out client', async () => {
+    const { pool, client } = makeMockPool();
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool, preparedStatements: true });
+    await store.load(query.eventsOfType('A'));
+    await store.load(query.eventsOfType('B'));
+
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(client.release).toHaveBeenCalledTimes(2);
+    const [first, second] = client.query.mock.calls.map(([config]) => config as pg.QueryConfig);
+    expect(first!.name).toMatch(/^es_stmt_\d+$/);
+    expect(first!.values).toEqual(['A']);
+    // Same shape, different values: one statement
+    expect(second!.name).toBe(first!.name);
+    expect(second!.values).toEqual(['B']);
+  });
+
+  it('deallocates evicted statements on a connection that prepared them', async () => {
+    const { pool, client } = makeMockPool();
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool, preparedStatements: { maxStatements: 1 } });
+    await store.load(query.eventsOfType('A'));
+    await store.loadLast(query.eventsOfType('A'), 1); // evicts the load statement
+    const firstName = (client.query.mock.calls[0]![0] as pg.QueryConfig).name;
+    expect(client.query.mock.calls[1]![0]).toBe(`DEALLOCATE ${firstName}`);
+    expect(client.query).toHaveBeenCalledTimes(3);
+  });
+
+  it('deallocates a statement that was parsed although its execution failed', async () => {
+    const { pool, client } = makeMockPool();
+    const parsedStatements: Record<string, string> = {};
+    Object.assign(client, { connection: { parsedStatements } });
+    client.query.mockImplementationOnce(async (config: pg.QueryConfig) => {
+      parsedStatements[config.name!] = config.text;
+      throw new Error('canceling statement due to statement timeout');
+    });
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool, preparedStatements: { maxStatements: 1 } });
+    await expect(store.load(query.eventsOfType('A'))).rejects.toThrow('statement timeout');
+    const firstName = (client.query.mock.calls[0]![0] as pg.QueryConfig).name!;
+
+    await store.loadLast(query.eventsOfType('A'), 1); // evicts the load statement
+    expect(client.query.mock.calls[1]![0]).toBe(`DEALLOCATE ${firstName}`);
+    expect(Object.hasOwn(parsedStatements, firstName)).toBe(false);
+  });
+
+  it('does not deallocate a statement pg never parsed', async () => {
+    const { pool, client } = makeMockPool();
+    Object.assign(client, { connection: { parsedStatements: {} } });
+    client.query.mockRejectedValueOnce(new Error('relation "events" does not exist'));
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool, preparedStatements: { maxStatements: 1 } });
+    await expect(store.load(query.eventsOfType('A'))).rejects.toThrow('does not exist');
+    await store.loadLast(query.eventsOfType('A'), 1);
+    expect(client.query.mock.calls.map(([config]) => config)).not.toContainEqual(expect.stringMatching(/^DEALLOCATE/));
+  });
+
+  it('releases the client when the query fails', async () => {
+    const { pool, client } = makeMockPool();
+    client.query.mockRejectedValueOnce(new Error('boom'));
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool, preparedStatements: true });
+    await expect(store.exists(query.eventsOfType('A'))).rejects.toThrow('boom');
+    expect(client.release).toHaveBeenCalledOnce();
+  });
+
+  it('uses plain text queries by default', async () => {
+    const { pool } = makeMockPool();
+    pool.query.mockResolvedValue({ rows: [], rowCount: 0 });
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    await store.load(query.eventsOfType('A'));
+    expect(pool.connect).not.toHaveBeenCalled();
+    expect(typeof pool.query.mock.calls[0]![0]).toBe('string');
+  });
+
+  it('rejects a maxStatements below 1', () => {
+    const { pool } = makeMockPool();
+    expect(() => new PostgresEventStore({ pool: pool as unknown as pg.Pool, preparedStatements: { maxStatements: 0 } }))
+      .toThrow('preparedStatements.maxStatements must be a positive integer, got 0');
+  });
+});
@@ -121,3 +121,44 @@ describe('PostgresEventStore.stream()', () => {
     }).rejects.toBeInstanceOf(EventStoreError);
   });
 });
+
+describe('PostgresEventStore.stream() backward', () => {
+  it('queries in descending order without a cursor on the first page', async () => {
+    const pool = makeMockPool([makeRow('3'), makeRow('2')]);
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    const positions: bigint[] = [];
+    for await (const event of store.stream(query.eventsOfType('X'), { direction: 'backward', batchSize: 10 })) {
+      positions.push(event.globalPosition);
+    }
+    expect(positions).toEqual([3n, 2n]);
+    const [sql, params] = pool.query.mock.calls[0]! as [string, unknown[]];
+    expect(sql).toContain('ORDER BY global_position DESC');
+    expect(sql).not.toContain('global_position <');
+    expect(params).toEqual(['X', 10]);
+  });
+
+  it('starts before the given beforePosition', async () => {
+    const pool = makeMockPool([]);
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    for await (const _ of store.stream(query.eventsOfType('X'), { direction: 'backward', beforePosition: 7n })) {
+      // nothing
+    }
+    const [sql, params] = pool.query.mock.calls[0]! as [string, unknown[]];
+    expect(sql).toContain('global_position < $2');
+    expect(params).toEqual(['X', 7n, 100]);
+  });
+
+  it('uses the oldest row of a full page as the next cursor', async () => {
+    const page1 = [makeRow('9'), makeRow('8')];
+    const pool = makeMockPool(page1, [makeRow('4')]);
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    const positions: bigint[] = [];
+    for await (const event of store.stream(query.eventsOfType('X'), { direction: 'backward', batchSize: 2 })) {
+      positions.push(event.globalPosition);
+    }
+    expect(positions).toEqual([9n, 8n, 4n]);
+    expect(pool.query).toHaveBeenCalledTimes(2);
+    const [, params2] = pool.query.mock.calls[1]! as [string, unknown[]];
+    expect(params2).toEqual(['X', 8n, 2]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import pg from 'pg';
+import { summarizePlan, type ExplainOutput } from '../../src/store/explain.js';
+import { PostgresEventStore } from '../../src/store/event-store.js';
+import { EventStoreError } from '../../src/errors.js';
+import { query } from '../../src/query/query-object.js';
+
+const bitmapPlan: ExplainOutput = {
+  Plan: {
+    'Node Type': 'Sort',
+    'Plan Rows': 3,
+    Plans: [{
+      'Node Type': 'Bitmap Heap Scan',
+      'Relation Name': 'events',
+      'Plan Rows': 3,
+      Plans: [{
+        'Node Type': 'BitmapAnd',
+        'Plan Rows': 3,
+        Plans: [
+          { 'Node Type': 'Bitmap Index Scan', 'Index Name': 'idx_events_type_position', 'Index Cond': "((type)::text = 'A'::text)", 'Plan Rows': 400 },
+          { 'Node Type': 'Bitmap Index Scan', 'Index Name': 'idx_events_payload_gin', 'Index Cond': "(payload @> '{}'::jsonb)", 'Plan Rows': 20 },
+        ],
+      }],
+    }],
+  },
+};
+
+describe('summarizePlan', () => {
+  it('collects the indexes of nested nodes and the top-level estimate', () => {
+    const result = summarizePlan('SELECT 1', ['A'], bitmapPlan);
+    expect(result.indexes).toEqual(['idx_events_type_position', 'idx_events_payload_gin']);
+    expect(result.estimatedRows).toBe(3);
+    expect(result.warnings).toEqual([]);
+    expect(result).not.toHaveProperty('actualRows');
+    expect(result.plan).toBe(bitmapPlan);
+  });
+
+  it('warns about sequential scans', () => {
+    const result = summarizePlan('SELECT 1', [], {
+      Plan: { 'Node Type': 'Seq Scan', 'Relation Name': 'events', 'Plan Rows': 10 },
+    });
+    expect(result.warnings).toEqual(['Sequential scan on events']);
+    expect(result.indexes).toEqual([]);
+  });
+
+  it('warns about index scans without an index condition', () => {
+    const result = summarizePlan('SELECT 1', [], {
+      Plan: { 'Node Type': 'Index Scan', 'Relation Name': 'events', 'Index Name': 'events_pkey', 'Plan Rows': 10 },
+    });
+    expect(result.indexes).toEqual(['events_pkey']);
+    expect(result.warnings).toEqual(['Full scan of events through events_pkey (no index condition)']);
+  });
+
+  it('reports actual rows and execution time from ANALYZE output', () => {
+    const result = summarizePlan('SELECT 1', [], {
+      Plan: { 'Node Type': 'Index Scan', 'Index Name': 'i', 'Index Cond': 'x', 'Plan Rows': 10, 'Actual Rows': 4, 'Actual Loops': 1 },
+      'Execution Time': 0.5,
+    });
+    expect(result.actualRows).toBe(4);
+    expect(result.executionTimeMs).toBe(0.5);
+  });
+});
+
+describe('PostgresEventStore.explain()', () => {
+  function makeMockPool() {
+    return {
+      query: vi.fn().mockResolvedValue({ rows: [{ 'QUERY PLAN': [bitmapPlan] }], rowCount: 1 }),
+      connect: vi.fn(),
+      end: vi.fn(),
+    };
+  }
+
+  it('explains the load query by default', async () => {
+    const pool = makeMockPool();
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    const result = await store.explain(query.eventsOfType('A'));
+    const [sql, params] = pool.query.mock.calls[0]! as [string, unknown[]];
+    expect(sql).toMatch(/^EXPLAIN \(FORMAT JSON\) SELECT global_position, event_id/);
+    expect(sql).toContain('ORDER BY global_position ASC');
+    expect(params).toEqual(['A']);
+    expect(result.sql).toBe(sql.replace('EXPLAIN (FORMAT JSON) ', ''));
+    expect(result.indexes).toContain('idx_events_type_position');
+  });
+
+  it('explains the version-check and stream forms, with ANALYZE on request', async () => {
+    const pool = makeMockPool();
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    await store.explain(query.eventsOfType('A'), { form: 'versionCheck', analyze: true });
+    await store.explain(query.eventsOfType('A'), { form: 'stream', batchSize: 25 });
+    const [versionSql] = pool.query.mock.calls[0]! as [string, unknown[]];
+    const [streamSql, streamParams] = pool.query.mock.calls[1]! as [string, unknown[]];
+    expect(versionSql).toMatch(/^EXPLAIN \(ANALYZE, FORMAT JSON\) SELECT COALESCE\(MAX/);
+    expect(streamSql).toContain('LIMIT $3');
+    expect(streamParams).toEqual(['A', 0n, 25]);
+  });
+
+  it('wraps pool.query errors in EventStoreError', async () => {
+    const pool = { query: vi.fn().mockRejectedValue(new Error('boom')), connect: vi.fn(), end: vi.fn() };
+    const store = new PostgresEventStore({ pool: pool as unknown as pg.Pool });
+    await expect(store.explain(query.eventsOfType('A'))).rejects.toBeInstanceOf(EventStoreError);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { lockSet, MAX_EVENT_VALUE_LOCKS, type LockRequest } from '../../src/store/lock-set.js';
+import { matches } from '../../src/query/matcher.js';
+import { query } from '../../src/query/query-object.js';
+import type { NewEvent, StoredEvent } from '../../src/types.js';
+import { conformanceCases, conformanceEvents } from '../shared/query-conformance.js';
+
+/** True when two lock sets share a key that at least one of them holds exclusively. */
+function conflict(a: LockRequest[], b: LockRequest[]): boolean {
+  const modes = new Map(a.map((l) => [l.key, l.exclusive]));
+  return b.some((l) => modes.has(l.key) && (l.exclusive || modes.get(l.key) === true));
+}
+
+const enrollmentStream = (studentId: string, courseId: string) => query
+  .eventsOfTypes(['StudentEnrolled', 'StudentDropped', 'StudentWithdrew'])
+  .where.key('studentId').equals(studentId).and.key('courseId').equals(courseId);
+const courseEnrollmentStream = (courseId: string) => query
+  .eventsOfTypes(['StudentEnrolled', 'StudentDropped', 'StudentWithdrew'])
+  .where.key('courseId').equals(courseId);
+
+describe('lockSet — every matching event conflicts with the condition', () => {
+  const events = conformanceEvents.map((e, i) => ({
+    newEvent: { type: e.type, payload: e.payload, ...(e.metadata === null ? {} : { metadata: e.metadata }), tags: e.tags } as NewEvent,
+    stored: {
+      globalPosition: BigInt(i + 1), eventId: `e${i + 1}`, type: e.type, payload: e.payload,
+      metadata: e.metadata, tags: e.tags, occurredAt: new Date(e.occurredAt),
+    } as StoredEvent,
+  }));
+
+  it.each(conformanceCases)('$name', ({ query: q }) => {
+    const conditionLocks = lockSet([q], []);
+    for (const { newEvent, stored } of events) {
+      if (matches(q, stored)) {
+        expect(conflict(conditionLocks, lockSet([], [newEvent])), `event ${String(stored.payload['n'])}`).toBe(true);
+      }
+    }
+  });
+});
+
+describe('lockSet', () => {
+  it('serialises an unenrollment with an enrollment into the same course', () => {
+    const unenroll = lockSet([enrollmentStream('s1', 'c1')], [
+      { type: 'StudentDropped', payload: { studentId: 's1', courseId: 'c1' } },
+    ]);
+    const enroll = lockSet([courseEnrollmentStream('c1')], [
+      { type: 'StudentEnrolled', payload: { studentId: 's2', courseId: 'c1' } },
+    ]);
+    expect(conflict(unenroll, enroll)).toBe(true);
+  });
+
+  it('does not serialise enrollments into different courses', () => {
+    const a = lockSet([courseEnrollmentStream('c1')], [{ type: 'StudentEnrolled', payload: { studentId: 's1', courseId: 'c1' } }]);
+    const b = lockSet([courseEnrollmentStream('c2')], [{ type: 'StudentEnrolled', payload: { studentId: 's2', courseId: 'c2' } }]);
+    expect(conflict(a, b)).toBe(false);
+  });
+
+  it('does not serialise unconditional appends of the same type with different values', () => {
+    const a = lockSet([], [{ type: 'X', payload: { id: 1 } }]);
+    const b = lockSet([], [{ type: 'X', payload: { id: 2 } }]);
+    expect(conflict(a, b)).toBe(false);
+  });
+
+  it('does not serialise unconditional appends sharing a payload value or tag', () => {
+    const graded = (studentId: string): NewEvent => ({
+      type: 'StudentGraded', payload: { studentId, grade: 90, semester: '2024-fall' }, tags: ['term:fall'],
+    });
+    expect(conflict(lockSet([], [graded('s1')]), lockSet([], [graded('s2')]))).toBe(false);
+  });
+
+  it('serialises conditions pinning the same value', () => {
+    const a = lockSet([courseEnrollmentStream('c1')], []);
+    const b = lockSet([query.eventsOfType('StudentEnrolled').where.key('courseId').equals('c1')], []);
+    expect(conflict(a, b)).toBe(true);
+  });
+
+  it('locks the whole type exclusively when the filter pins no value', () => {
+    expect(lockSet([query.eventsOfType('X').where.key('n').gt(1)], [])).toEqual([{ key: '["type","X"]', exclusive: true }]);
+  });
+
+  it('uses every branch of an OR and one conjunct of an AND', () => {
+    const locks = lockSet(
+      [query.eventsOfType('X').where.group((g) => g.key('a').equals(1).or.key('b').in(['p', 'q'])).and.key('c').equals(2)],
+      [],
+    );
+    expect(locks).toEqual([
+      { key: '["type","X"]', exclusive: false },
+      { key: '["value","X","a",1]', exclusive: true },
+      { key: '["value","X","b","p"]', exclusive: true },
+      { key: '["value","X","b","q"]', exclusive: true },
+    ]);
+  });
+
+  it('locks one tag of a tag filter', () => {
+    const locks = lockSet([query.eventsOfType('X').where.taggedWith('course:c1', 'term:fall')], []);
+    expect(locks).toContainEqual({ key: '["tag","X","course:c1"]', exclusive: true });
+    expect(locks.map((l) => l.key)).not.toContain('["tag","X","term:fall"]');
+  });
+
+  it('conflicts a prefix condition with an append of any type', () => {
+    const prefix = lockSet([query.eventsOfTypePrefix('Course')], []);
+    expect(conflict(prefix, lockSet([], [{ type: 'Unrelated', payload: {} }]))).toBe(true);
+  });
+
+  it('does not lock nested or non-scalar payload values', () => {
+    const keys = lockSet([], [{ type: 'X', payload: { a: { b: 1 }, list: [1], at: new Date('2024-01-01') } }]).map((l) => l.key);
+    expect(keys).toEqual(['["any"]', '["type","X"]', '["value","X","at","2024-01-01T00:00:00.000Z"]']);
+  });
+
+  it('serialises appends of the same event id, ignoring case', () => {
+    const id = '0190a7e2-5b1c-7d2e-8f3a-4b5c6d7e8f01';
+    const a = lockSet([], [{ type: 'X', payload: {}, eventId: id }]);
+    const b = lockSet([], [{ type: 'X', payload: {}, eventId: id.toUpperCase() }]);
+    expect(conflict(a, b)).toBe(true);
+    expect(conflict(a, lockSet([], [{ type: 'X', payload: {} }]))).toBe(false);
+  });
+
+  it('keeps the exclusive mode when a key is locked both ways', () => {
+    const locks = lockSet([query.eventsOfType('X').where.key('id').equals('x1')], [{ type: 'X', payload: { id: 'x1' } }]);
+    expect(locks).toContainEqual({ key: '["value","X","id","x1"]', exclusive: true });
+  });
+
+  it('falls back to an exclusive type lock for large batches', () => {
+    const batch = Array.from({ length: MAX_EVENT_VALUE_LOCKS + 1 }, (_, i) => ({ type: 'X', payload: { id: i } }));
+    const locks = lockSet([], batch);
+    expect(locks).toEqual([{ key: '["any"]', exclusive: false }, { key: '["type","X"]', exclusive: true }]);
+    expect(conflict(locks, lockSet([query.eventsOfType('X').where.key('id').equals(1)], []))).toBe(true);
+  });
+
+  it('combines the locks of several conditions', () => {
+    const locks = lockSet([query.eventsOfType('X').where.key('id').equals('x1'), query.eventsOfType('Y')], []);
+    expect(locks).toEqual([
+      { key: '["type","X"]', exclusive: false },
+      { key: '["type","Y"]', exclusive: true },
+      { key: '["value","X","id","x1"]', exclusive: true },
+    ]);
+  });
+
+  it('takes no locks for an empty append without a condition', () => {
+    expect(lockSet([], [])).toEqual([]);
+  });
+});
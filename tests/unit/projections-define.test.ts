@@ -15,6 +15,7 @@ function mockEvent(type: string, payload: Record<string, unknown> = {}): StoredE
     type,
     payload,
     metadata: null,
+    tags: [],
     occurredAt: new Date(),
   };
 }
@@ -28,6 +28,28 @@ describe('Public API surface', () => {
     expect(err.name).toBe('EventStoreError');
   });
 
+  it('exports serializeQuery and parseQuery', async () => {
+    const { query, serializeQuery, parseQuery } = await import('../../src/index.js');
+    const q = parseQuery(serializeQuery(query.eventsOfType('TestType')));
+    expect(q._clauses).toEqual([{ type: 'TestType', filter: null }]);
+  });
+
+  it('exports matches', async () => {
+    const { query, matches } = await import('../../src/index.js');
+    const event = {
+      globalPosition: 1n, eventId: 'e1', type: 'TestType', payload: {}, metadata: null, tags: [], occurredAt: new Date(),
+    };
+    expect(matches(query.eventsOfType('TestType'), event)).toBe(true);
+  });
+
+  it('exports InvalidQueryError as a class usable with instanceof', async () => {
+    const { InvalidQueryError } = await import('../../src/index.js');
+    const err = new InvalidQueryError('$.clauses', 'must be a non-empty array');
+    expect(err).toBeInstanceOf(InvalidQueryError);
+    expect(err).toBeInstanceOf(Error);
+    expect(err.name).toBe('InvalidQueryError');
+  });
+
   it('does NOT export compileLoadQuery (internal)', async () => {
     const api = await import('../../src/index.js');
     expect((api as Record<string, unknown>)['compileLoadQuery']).toBeUndefined();
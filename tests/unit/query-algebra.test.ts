@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { query } from '../../src/query/query-object.js';
+import { compileLoadQuery } from '../../src/query/compiler.js';
+import { normalizeClauses } from '../../src/query/algebra.js';
+import { matches } from '../../src/query/matcher.js';
+import type { QueryDefinition } from '../../src/query/types.js';
+import type { StoredEvent } from '../../src/types.js';
+import { conformanceCases, conformanceEvents } from '../shared/query-conformance.js';
+
+const storedEvents: StoredEvent[] = conformanceEvents.map((e, i) => ({
+  globalPosition: BigInt(i + 1),
+  eventId: `e${i + 1}`,
+  type: e.type,
+  payload: e.payload,
+  metadata: e.metadata,
+  tags: e.tags,
+  occurredAt: new Date(e.occurredAt),
+}));
+
+function selected(q: QueryDefinition): number[] {
+  return storedEvents.filter((e) => matches(q, e)).map((e) => e.payload['n'] as number);
+}
+
+const byName = (name: string): QueryDefinition => conformanceCases.find((c) => c.name === name)!.query;
+
+describe('query.union', () => {
+  it('concatenates clauses of different types', () => {
+    const u = query.union(query.eventsOfType('B'), query.eventsOfType('A').where.key('k').equals(1));
+    expect(u._clauses).toEqual([
+      { type: 'A', filter: { kind: 'attr', key: 'k', value: 1 } },
+      { type: 'B', filter: null },
+    ]);
+  });
+
+  it('merges clauses of identical types by OR-ing their filters', () => {
+    const u = query.union(
+      query.eventsOfType('A').where.key('k').equals(1),
+      query.eventsOfType('A').where.key('k').equals(2),
+    );
+    expect(u._clauses).toHaveLength(1);
+    expect(u._clauses[0]!.filter).toMatchObject({ kind: 'or' });
+  });
+
+  it('an unfiltered clause absorbs filtered clauses of the same types', () => {
+    const u = query.union(query.eventsOfType('A').where.key('k').equals(1), query.eventsOfType('A'));
+    expect(u._clauses).toEqual([{ type: 'A', filter: null }]);
+  });
+
+  it('deduplicates identical clauses', () => {
+    const a = query.eventsOfType('A').where.key('k').equals(1).or.key('k').equals(2);
+    expect(query.union(a, a)._clauses).toEqual(a._clauses);
+  });
+
+  it('treats type lists as sets', () => {
+    const u = query.union(query.eventsOfTypes(['B', 'A']), query.eventsOfTypes(['A', 'B']));
+    expect(u._clauses).toEqual([{ type: ['A', 'B'], filter: null }]);
+  });
+
+  it('requires equal bounds', () => {
+    expect(() => query.union(query.eventsOfType('A').afterPosition(1n), query.eventsOfType('B'))).toThrow(/same bounds/);
+    const u = query.union(query.eventsOfType('A').afterPosition(1n), query.eventsOfType('B').afterPosition(1n));
+    expect(u._bounds).toEqual({ afterPosition: 1n });
+  });
+});
+
+describe('query.intersect', () => {
+  it('ANDs the filters of clauses with the same types', () => {
+    const i = query.intersect(
+      query.eventsOfType('A').where.key('a').equals(1),
+      query.eventsOfType('A').where.key('b').equals(2),
+    );
+    expect(i._clauses).toEqual([{
+      type: 'A',
+      filter: { kind: 'and', filters: [{ kind: 'attr', key: 'a', value: 1 }, { kind: 'attr', key: 'b', value: 2 }] },
+    }]);
+  });
+
+  it('intersects type lists and prefixes', () => {
+    const i = query.intersect(query.eventsOfTypes(['CourseCreated', 'StudentGraded']), query.eventsOfTypePrefix('Course'));
+    expect(i._clauses).toEqual([{ type: 'CourseCreated', filter: null }]);
+    const p = query.intersect(query.eventsOfTypePrefix('Course'), query.eventsOfTypePrefix('CourseC'));
+    expect(p._clauses).toEqual([{ type: 'CourseC', prefix: true, filter: null }]);
+  });
+
+  it('disjoint types give a query that matches nothing', () => {
+    const i = query.intersect(query.eventsOfType('A'), query.eventsOfType('B'));
+    expect(i._clauses).toEqual([{ type: [], filter: null }]);
+    expect(compileLoadQuery(i).sql).toContain('type = ANY($1::text[])');
+  });
+
+  it('keeps the tighter of both bounds', () => {
+    const i = query.intersect(
+      query.eventsOfType('A').afterPosition(5n).untilPosition(50n),
+      query.eventsOfType('A').afterPosition(2n).untilPosition(20n),
+    );
+    expect(i._bounds).toEqual({ afterPosition: 5n, untilPosition: 20n });
+  });
+});
+
+describe('query.except', () => {
+  it('removes types matched without a filter', () => {
+    const e = query.except(query.eventsOfTypes(['A', 'B', 'C']), query.eventsOfType('B'));
+    expect(e._clauses).toEqual([{ type: ['A', 'C'], filter: null }]);
+  });
+
+  it('ANDs the negated filter into the overlapping types', () => {
+    const e = query.except(query.eventsOfTypes(['A', 'B']), query.eventsOfType('B').where.key('k').equals(1));
+    expect(e._clauses).toEqual([
+      { type: 'A', filter: null },
+      { type: 'B', filter: { kind: 'not', filter: { kind: 'attr', key: 'k', value: 1 } } },
+    ]);
+  });
+
+  it('removing a whole prefix leaves nothing', () => {
+    const e = query.except(query.eventsOfTypePrefix('CourseC'), query.eventsOfTypePrefix('Course'));
+    expect(e._clauses).toEqual([{ type: [], filter: null }]);
+  });
+
+  it('rejects removing some types from a prefix clause', () => {
+    expect(() => query.except(query.eventsOfTypePrefix('Course'), query.eventsOfType('CourseCreated'))).toThrow(
+      "except() cannot remove CourseCreated from the types starting with 'Course'",
+    );
+  });
+
+  it('rejects a second query bounded more tightly than the first', () => {
+    expect(() => query.except(query.eventsOfType('A'), query.eventsOfType('A').untilPosition(3n))).toThrow(/bounds/);
+    const e = query.except(query.eventsOfType('A').untilPosition(3n), query.eventsOfType('A').where.key('k').exists());
+    expect(e._bounds).toEqual({ untilPosition: 3n });
+  });
+});
+
+describe('query algebra semantics', () => {
+  const pairs: Array<[string, string]> = [
+    ['clauses are OR-ed', 'type prefix'],
+    ['equals on a nested path', 'type prefix'],
+    ['exact type', 'notEquals includes events without the key'],
+    ['metadata equals', 'number range skips other JSON types'],
+    ['a AND (b OR c)', 'in'],
+    ['type list', 'exists includes JSON null'],
+  ];
+
+  it.each(pairs)('%s ∪ ∩ ∖ %s agree with set operations on matches()', (left, right) => {
+    const [a, b] = [byName(left), byName(right)];
+    const [sa, sb] = [selected(a), selected(b)];
+    expect(selected(query.union(a, b))).toEqual([...new Set([...sa, ...sb])].sort((x, y) => x - y));
+    expect(selected(query.intersect(a, b))).toEqual(sa.filter((n) => sb.includes(n)));
+    expect(selected(query.except(a, b))).toEqual(sa.filter((n) => !sb.includes(n)));
+  });
+});
+
+describe('SQL of composed queries', () => {
+  const a = query.eventsOfType('StudentEnrolled').where.key('courseId').equals('c1');
+  const b = query.eventsOfType('StudentEnrolled').where.key('studentId').equals('s1');
+  const c = query.eventsOfType('CourseCreated').where.key('courseId').equals('c1');
+
+  it('union is commutative and associative', () => {
+    const compiled = compileLoadQuery(query.union(query.union(a, b), c));
+    expect(compileLoadQuery(query.union(c, query.union(b, a)))).toEqual(compiled);
+    expect(compileLoadQuery(query.union(query.union(b, c), a))).toEqual(compiled);
+  });
+
+  it('union normalises to the same clauses written by hand', () => {
+    const byHand = query
+      .eventsOfType('CourseCreated').where.key('courseId').equals('c1')
+      .eventsOfType('StudentEnrolled').where.key('courseId').equals('c1')
+      .eventsOfType('StudentEnrolled').where.key('studentId').equals('s1');
+    expect(query.union(query.union(a, b), c)._clauses).toEqual(normalizeClauses(byHand._clauses));
+  });
+
+  it('union with itself and intersect with itself leave the SQL unchanged', () => {
+    expect(compileLoadQuery(query.union(a, a))).toEqual(compileLoadQuery(a));
+    expect(compileLoadQuery(query.intersect(a, a))).toEqual(compileLoadQuery(a));
+  });
+
+  it('intersect is commutative', () => {
+    expect(compileLoadQuery(query.intersect(a, b))).toEqual(compileLoadQuery(query.intersect(b, a)));
+  });
+});
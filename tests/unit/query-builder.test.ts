@@ -161,6 +161,55 @@ describe('Query Builder', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Multi-type and prefix clauses
+  // ---------------------------------------------------------------------------
+  describe('eventsOfTypes and eventsOfTypePrefix', () => {
+    it('query.eventsOfTypes creates one clause holding every type', () => {
+      const qd = query.eventsOfTypes(['CourseCreated', 'CoursePublished']);
+      expect(qd._clauses).toEqual([{ type: ['CourseCreated', 'CoursePublished'], filter: null }]);
+    });
+
+    it('a following filter applies to the whole type list', () => {
+      const qd = query.eventsOfTypes(['A', 'B', 'C']).where.key('courseId').equals('c1');
+      expect(qd._clauses).toEqual([{ type: ['A', 'B', 'C'], filter: attr('courseId', 'c1') }]);
+    });
+
+    it('a single-element list collapses to a plain type', () => {
+      expect(query.eventsOfTypes(['A'])._clauses).toEqual(query.eventsOfType('A')._clauses);
+    });
+
+    it('copies the types array', () => {
+      const types = ['A', 'B'];
+      const qd = query.eventsOfTypes(types);
+      types.push('C');
+      expect(qd._clauses[0]!.type).toEqual(['A', 'B']);
+    });
+
+    it('rejects an empty type list', () => {
+      expect(() => query.eventsOfTypes([])).toThrow(/at least one/);
+    });
+
+    it('eventsOfTypePrefix creates a prefix clause that keeps its flag through filters', () => {
+      const qd = query.eventsOfTypePrefix('Student').where.key('studentId').equals('s1');
+      expect(qd._clauses).toEqual([{ type: 'Student', prefix: true, filter: attr('studentId', 's1') }]);
+    });
+
+    it('rejects an empty prefix', () => {
+      expect(() => query.eventsOfTypePrefix('')).toThrow(/non-empty/);
+    });
+
+    it('mixes with single-type clauses', () => {
+      const qd = query
+        .eventsOfType('StudentRegistered').where.key('studentId').equals('s1')
+        .eventsOfTypes(['StudentEnrolled', 'StudentDropped']).where.key('studentId').equals('s1')
+        .eventsOfTypePrefix('Teacher');
+      expect(qd._clauses).toHaveLength(3);
+      expect(qd._clauses[1]!.type).toEqual(['StudentEnrolled', 'StudentDropped']);
+      expect(qd._clauses[2]!).toEqual({ type: 'Teacher', prefix: true, filter: null });
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // Immutability
   // ---------------------------------------------------------------------------
@@ -220,6 +269,12 @@ describe('Query Builder', () => {
       expect(qd._clauses[0]!.filter).toEqual(attr('k', null));
     });
 
+    it('equals(), notEquals() and in() reject undefined instead of matching every event', () => {
+      expect(() => query.eventsOfType('X').where.key('k').equals(undefined)).toThrow('equals() requires a defined value');
+      expect(() => query.eventsOfType('X').where.key('k').notEquals(undefined)).toThrow('notEquals() requires a defined value');
+      expect(() => query.eventsOfType('X').where.key('k').in(['a', undefined])).toThrow('in() requires a defined value');
+    });
+
     it('equals(0) stores 0 (not coerced to falsy)', () => {
       const qd = query.eventsOfType('X').where.key('count').equals(0);
       const filter = qd._clauses[0]!.filter;
@@ -245,6 +300,320 @@ describe('Query Builder', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Explicit grouping
+  // ---------------------------------------------------------------------------
+  describe('group()', () => {
+    it('a AND (b OR c) nests the OR node under the AND node', () => {
+      const qd = query
+        .eventsOfType('X')
+        .where.key('a').equals(1)
+        .and.group(g => g.key('b').equals(2).or.key('c').equals(3));
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'and',
+        filters: [attr('a', 1), { kind: 'or', filters: [attr('b', 2), attr('c', 3)] }],
+      });
+    });
+
+    it('(a AND b) OR (c AND d) keeps both groups', () => {
+      const qd = query
+        .eventsOfType('X')
+        .where.group(g => g.key('a').equals(1).and.key('b').equals(2))
+        .or.group(g => g.key('c').equals(3).and.key('d').equals(4));
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'or',
+        filters: [
+          { kind: 'and', filters: [attr('a', 1), attr('b', 2)] },
+          { kind: 'and', filters: [attr('c', 3), attr('d', 4)] },
+        ],
+      });
+    });
+
+    it('a group is not flattened into by a following combinator of the same kind', () => {
+      const qd = query
+        .eventsOfType('X')
+        .where.group(g => g.key('a').equals(1).or.key('b').equals(2))
+        .or.key('c').equals(3);
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'or',
+        filters: [{ kind: 'or', filters: [attr('a', 1), attr('b', 2)] }, attr('c', 3)],
+      });
+    });
+
+    it('groups nest', () => {
+      const qd = query
+        .eventsOfType('X')
+        .where.group(g => g.key('a').equals(1).and.group(h => h.key('b').equals(2).or.key('c').equals(3)));
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'and',
+        filters: [attr('a', 1), { kind: 'or', filters: [attr('b', 2), attr('c', 3)] }],
+      });
+    });
+
+    it('.not.group() negates the whole group', () => {
+      const qd = query.eventsOfType('X').where.not.group(g => g.key('a').equals(1).or.key('b').equals(2));
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'not',
+        filter: { kind: 'or', filters: [attr('a', 1), attr('b', 2)] },
+      });
+    });
+
+    it('applies to the last clause only', () => {
+      const qd = query
+        .eventsOfType('A').where.key('x').equals(1)
+        .eventsOfType('B').where.group(g => g.key('y').equals(2).or.key('z').equals(3));
+      expect(qd._clauses[0]!.filter).toEqual(attr('x', 1));
+      expect(qd._clauses[1]!.filter).toEqual({ kind: 'or', filters: [attr('y', 2), attr('z', 3)] });
+    });
+
+    it('rejects callbacks that add event types', () => {
+      expect(() =>
+        query.eventsOfType('X').where.group(g => g.key('a').equals(1).eventsOfType('Y')),
+      ).toThrow(/must not add event types/);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Nested payload paths
+  // ---------------------------------------------------------------------------
+  describe('nested payload paths', () => {
+    it('a dotted key is split into path segments', () => {
+      const qd = query.eventsOfType('X').where.key('address.city').equals('Berlin');
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'attr', key: ['address', 'city'], value: 'Berlin' });
+    });
+
+    it('an array key is used as the path', () => {
+      const qd = query.eventsOfType('X').where.key(['address', 'city']).equals('Berlin');
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'attr', key: ['address', 'city'], value: 'Berlin' });
+    });
+
+    it('a single-segment array collapses to a plain key', () => {
+      const qd = query.eventsOfType('X').where.key(['customer.id']).equals('c1');
+      expect(qd._clauses[0]!.filter).toEqual(attr('customer.id', 'c1'));
+    });
+
+    it('rejects empty keys and empty path segments', () => {
+      expect(() => query.eventsOfType('X').where.key('')).toThrow(/non-empty/);
+      expect(() => query.eventsOfType('X').where.key('a..b')).toThrow(/non-empty/);
+      expect(() => query.eventsOfType('X').where.key([])).toThrow(/non-empty/);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Metadata filters
+  // ---------------------------------------------------------------------------
+  describe('metadata filters', () => {
+    it('.where.metadata().equals() tags the node with source metadata', () => {
+      const qd = query.eventsOfType('X').where.metadata('correlationId').equals('req-1');
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'attr', key: 'correlationId', value: 'req-1', source: 'metadata',
+      });
+    });
+
+    it('payload filters carry no source field', () => {
+      const qd = query.eventsOfType('X').where.key('k').equals('v');
+      expect(qd._clauses[0]!.filter).not.toHaveProperty('source');
+    });
+
+    it('metadata works with every value operator', () => {
+      const inNode = query.eventsOfType('X').where.metadata('tenant').in(['t1']);
+      const rangeNode = query.eventsOfType('X').where.metadata('attempt').gt(1);
+      expect(inNode._clauses[0]!.filter).toMatchObject({ kind: 'in', source: 'metadata' });
+      expect(rangeNode._clauses[0]!.filter).toMatchObject({ kind: 'range', source: 'metadata' });
+    });
+
+    it('metadata and payload filters combine', () => {
+      const qd = query.eventsOfType('X').where.key('k').equals('v').and.metadata('tenant').equals('t1');
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'and',
+        filters: [attr('k', 'v'), { kind: 'attr', key: 'tenant', value: 't1', source: 'metadata' }],
+      });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Tags
+  // ---------------------------------------------------------------------------
+  describe('taggedWith()', () => {
+    it('creates a tags node', () => {
+      const qd = query.eventsOfType('X').where.taggedWith('course:c1');
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'tags', tags: ['course:c1'] });
+    });
+
+    it('keeps several tags in one node and drops duplicates', () => {
+      const qd = query.eventsOfType('X').where.taggedWith('course:c1', 'student:s1', 'course:c1');
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'tags', tags: ['course:c1', 'student:s1'] });
+    });
+
+    it('.not negates it', () => {
+      const qd = query.eventsOfType('X').where.not.taggedWith('archived');
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'not', filter: { kind: 'tags', tags: ['archived'] } });
+    });
+
+    it('combines with payload filters', () => {
+      const qd = query.eventsOfType('X').where.taggedWith('course:c1').and.key('k').equals('v');
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'and',
+        filters: [{ kind: 'tags', tags: ['course:c1'] }, attr('k', 'v')],
+      });
+    });
+
+    it('throws without tags', () => {
+      expect(() => query.eventsOfType('X').where.taggedWith()).toThrow('taggedWith() requires at least one tag');
+    });
+
+    it('throws on an empty tag', () => {
+      expect(() => query.eventsOfType('X').where.taggedWith('a', '')).toThrow('taggedWith() requires non-empty tags');
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Negation and existence
+  // ---------------------------------------------------------------------------
+  describe('negation and existence', () => {
+    it('notEquals() wraps an attr node in a not node', () => {
+      const qd = query.eventsOfType('StudentDropped').where.key('droppedBy').notEquals('s1');
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'not', filter: attr('droppedBy', 's1') });
+    });
+
+    it('exists() and missing() produce existence nodes', () => {
+      const present = query.eventsOfType('X').where.key('prerequisites.0').exists();
+      const absent = query.eventsOfType('X').where.key('reason').missing();
+      expect(present._clauses[0]!.filter).toEqual({ kind: 'exists', key: ['prerequisites', '0'] });
+      expect(absent._clauses[0]!.filter).toEqual({ kind: 'not', filter: { kind: 'exists', key: 'reason' } });
+    });
+
+    it('.not negates the following predicate', () => {
+      const qd = query.eventsOfType('X').where.not.key('courseId').in(['c1', 'c2']);
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'not',
+        filter: { kind: 'in', key: 'courseId', values: ['c1', 'c2'] },
+      });
+    });
+
+    it('.not.not cancels out', () => {
+      const qd = query.eventsOfType('X').where.not.not.key('k').equals('v');
+      expect(qd._clauses[0]!.filter).toEqual(attr('k', 'v'));
+    });
+
+    it('.not only applies to the next predicate', () => {
+      const qd = query.eventsOfType('X').where.not.key('a').equals(1).and.key('b').equals(2);
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'and',
+        filters: [{ kind: 'not', filter: attr('a', 1) }, attr('b', 2)],
+      });
+    });
+
+    it('metadata existence keeps the source', () => {
+      const qd = query.eventsOfType('X').where.metadata('causationId').exists();
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'exists', key: 'causationId', source: 'metadata' });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Set membership
+  // ---------------------------------------------------------------------------
+  describe('in()', () => {
+    it('produces an in node with the given values', () => {
+      const qd = query.eventsOfType('StudentEnrolled').where.key('courseId').in(['c1', 'c2']);
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'in', key: 'courseId', values: ['c1', 'c2'] });
+    });
+
+    it('copies the values array so later mutation does not leak into the query', () => {
+      const values = ['c1'];
+      const qd = query.eventsOfType('X').where.key('courseId').in(values);
+      values.push('c2');
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'in', key: 'courseId', values: ['c1'] });
+    });
+
+    it('combines with other filters', () => {
+      const qd = query.eventsOfType('X').where.key('studentId').equals('s1').and.key('courseId').in(['c1']);
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'and',
+        filters: [attr('studentId', 's1'), { kind: 'in', key: 'courseId', values: ['c1'] }],
+      });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Array containment
+  // ---------------------------------------------------------------------------
+  describe('array containment', () => {
+    it('contains() produces a contains node with a single element', () => {
+      const qd = query.eventsOfType('CourseCreated').where.key('prerequisites').contains('c1');
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'contains', key: 'prerequisites', values: ['c1'] });
+    });
+
+    it('containsAll() keeps every element', () => {
+      const qd = query.eventsOfType('CourseCreated').where.key('prerequisites').containsAll(['c1', 'c2']);
+      expect(qd._clauses[0]!.filter).toEqual({ kind: 'contains', key: 'prerequisites', values: ['c1', 'c2'] });
+    });
+
+    it('can be negated', () => {
+      const qd = query.eventsOfType('CourseCreated').where.not.key('prerequisites').contains('c1');
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'not',
+        filter: { kind: 'contains', key: 'prerequisites', values: ['c1'] },
+      });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Range operators
+  // ---------------------------------------------------------------------------
+  describe('range operators', () => {
+    it('gt/gte/lt/lte produce range nodes with the matching operator', () => {
+      const ops = ['gt', 'gte', 'lt', 'lte'] as const;
+      for (const op of ops) {
+        const qd = query.eventsOfType('StudentGraded').where.key('grade')[op](60);
+        expect(qd._clauses[0]!.filter).toEqual({
+          kind: 'range', key: 'grade', op, valueType: 'number', value: 60,
+        });
+      }
+    });
+
+    it('string operands produce a string range', () => {
+      const qd = query.eventsOfType('X').where.key('semester').gte('2024-fall');
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'range', key: 'semester', op: 'gte', valueType: 'string', value: '2024-fall',
+      });
+    });
+
+    it('Date operands are stored as ISO strings with valueType date', () => {
+      const qd = query.eventsOfType('X').where.key('enrolledAt').lt(new Date('2024-03-01T00:00:00Z'));
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'range', key: 'enrolledAt', op: 'lt', valueType: 'date', value: '2024-03-01T00:00:00.000Z',
+      });
+    });
+
+    it('between() produces a between node', () => {
+      const qd = query.eventsOfType('X').where.key('creditHours').between(2, 4);
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'between', key: 'creditHours', valueType: 'number', from: 2, to: 4,
+      });
+    });
+
+    it('range nodes combine with equality filters', () => {
+      const qd = query.eventsOfType('X').where.key('courseId').equals('c1').and.key('grade').lt(60);
+      expect(qd._clauses[0]!.filter).toEqual({
+        kind: 'and',
+        filters: [
+          attr('courseId', 'c1'),
+          { kind: 'range', key: 'grade', op: 'lt', valueType: 'number', value: 60 },
+        ],
+      });
+    });
+
+    it('between() rejects bounds of different types', () => {
+      expect(() => query.eventsOfType('X').where.key('k').between(1, 'z')).toThrow(/same type/);
+    });
+
+    it('rejects non-finite numbers and invalid dates', () => {
+      expect(() => query.eventsOfType('X').where.key('k').gt(Number.NaN)).toThrow(/finite/);
+      expect(() => query.eventsOfType('X').where.key('k').gt(new Date('nope'))).toThrow(/valid Date/);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // ClauseBuilder methods
   // ---------------------------------------------------------------------------
@@ -263,4 +632,57 @@ describe('Query Builder', () => {
       expect(via1._clauses).toEqual(via2._clauses);
     });
   });
+
+  // ---------------------------------------------------------------------------
+  // Query bounds
+  // ---------------------------------------------------------------------------
+  describe('bounds', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+    const to = new Date('2024-02-01T00:00:00Z');
+
+    it('a query without bounds has no _bounds', () => {
+      expect(query.eventsOfType('X')._bounds).toBeUndefined();
+    });
+
+    it('occurredBetween(), afterPosition() and untilPosition() accumulate', () => {
+      const qd = query.eventsOfType('X').occurredBetween(from, to).afterPosition(3n).untilPosition(9n);
+      expect(qd._bounds).toEqual({ occurredFrom: from, occurredTo: to, afterPosition: 3n, untilPosition: 9n });
+    });
+
+    it('a later call replaces the same bound', () => {
+      const qd = query.eventsOfType('X').afterPosition(3n).afterPosition(5n);
+      expect(qd._bounds).toEqual({ afterPosition: 5n });
+    });
+
+    it('bounds survive filters and further clauses', () => {
+      const qd = query
+        .eventsOfType('A')
+        .afterPosition(3n)
+        .where.key('k').equals(1)
+        .and.group((g) => g.key('a').equals(2).or.key('b').equals(3))
+        .eventsOfType('B')
+        .where.not.key('k').exists();
+      expect(qd._bounds).toEqual({ afterPosition: 3n });
+      expect(qd._clauses).toHaveLength(2);
+    });
+
+    it('does not mutate the original builder', () => {
+      const base = query.eventsOfType('X');
+      base.untilPosition(4n);
+      expect(base._bounds).toBeUndefined();
+    });
+
+    it('rejects invalid bounds', () => {
+      expect(() => query.eventsOfType('X').occurredBetween(to, from)).toThrow(/from <= to/);
+      expect(() => query.eventsOfType('X').occurredBetween(new Date('nope'), to)).toThrow(/valid Dates/);
+      expect(() => query.eventsOfType('X').afterPosition(-1n)).toThrow(/non-negative/);
+      expect(() => query.eventsOfType('X').untilPosition(-1n)).toThrow(/non-negative/);
+    });
+
+    it('group() rejects bounds set inside the callback', () => {
+      expect(() =>
+        query.eventsOfType('X').where.group((g) => g.key('a').equals(1).afterPosition(1n)),
+      ).toThrow(/must not set query bounds/);
+    });
+  });
 });
@@ -3,9 +3,12 @@ import { query } from "../../src/query/query-object.js";
 import {
   compileLoadQuery,
   compileVersionCheckQuery,
+  compileExistsQuery,
+  compileCountQuery,
   compileStreamQuery,
-  compileCanonicalKey,
+  compileBackwardStreamQuery,
 } from "../../src/query/compiler.js";
+import { ISO_TIMESTAMP_PATTERN } from "../../src/query/timestamp.js";
 
 describe("compileLoadQuery", () => {
 
@@ -15,7 +18,7 @@ describe("compileLoadQuery", () => {
     expect(params).toEqual(["OrderCreated"]);
     expect(sql).toContain("WHERE type = $1");
     expect(sql).toContain("ORDER BY global_position ASC");
-    expect(sql).toMatch(/^SELECT global_position, event_id, type, payload, metadata, occurred_at/);
+    expect(sql).toMatch(/^SELECT global_position, event_id, type, payload, metadata, tags, occurred_at/);
   });
 
   it("single attr filter", () => {
@@ -65,6 +68,24 @@ describe("compileLoadQuery", () => {
     expect(sql).toContain("WHERE ((type = $1 AND payload @> $2::jsonb) OR (type = $3 AND payload @> $4::jsonb))");
   });
 
+  it("multi-type clause - type = ANY with a single text[] parameter", () => {
+    const q = query.eventsOfTypes(["A", "B", "C"]).where.key("courseId").equals("c1");
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual([["A", "B", "C"], JSON.stringify({ courseId: "c1" })]);
+    expect(sql).toContain("WHERE (type = ANY($1::text[]) AND payload @> $2::jsonb)");
+  });
+
+  it("prefix clause - LIKE with an escaped pattern", () => {
+    const { sql, params } = compileLoadQuery(query.eventsOfTypePrefix("Student"));
+    expect(params).toEqual(["Student%"]);
+    expect(sql).toContain("WHERE type LIKE $1");
+  });
+
+  it("prefix clause - LIKE wildcards in the prefix are matched literally", () => {
+    const { params } = compileLoadQuery(query.eventsOfTypePrefix("a_b%c\\"));
+    expect(params).toEqual(["a\\_b\\%c\\\\%"]);
+  });
+
   it("parameter numbering - no gaps, no duplicates", () => {
     const q = query.eventsOfType("T").where.key("a").equals(1).and.key("b").equals(2);
     const { sql, params } = compileLoadQuery(q);
@@ -94,6 +115,212 @@ describe("compileLoadQuery", () => {
     expect(params[1]).toBe(JSON.stringify({ key: { nested: true } }));
   });
 
+  it("group - parentheses follow the filter tree", () => {
+    const q = query.eventsOfType("T")
+      .where.key("a").equals(1)
+      .and.group((g) => g.key("b").equals(2).or.key("c").equals(3));
+    const { sql, params } = compileLoadQuery(q);
+    expect(params.length).toBe(4);
+    expect(sql).toContain("(type = $1 AND (payload @> $2::jsonb AND (payload @> $3::jsonb OR payload @> $4::jsonb)))");
+  });
+
+  it("nested path - equals builds a nested containment document", () => {
+    const q = query.eventsOfType("T").where.key("address.city").equals("Berlin");
+    const { sql, params } = compileLoadQuery(q);
+    expect(params[1]).toBe(JSON.stringify({ address: { city: "Berlin" } }));
+    expect(sql).toContain("payload @> $2::jsonb");
+  });
+
+  it("nested path - array segments and dotted strings compile identically", () => {
+    const dotted = compileLoadQuery(query.eventsOfType("T").where.key("a.b.c").equals(1));
+    const segments = compileLoadQuery(query.eventsOfType("T").where.key(["a", "b", "c"]).equals(1));
+    expect(segments).toEqual(dotted);
+  });
+
+  it("nested path - a literal dotted key stays a single segment when passed as an array", () => {
+    const { params } = compileLoadQuery(query.eventsOfType("T").where.key(["a.b"]).equals(1));
+    expect(params[1]).toBe(JSON.stringify({ "a.b": 1 }));
+  });
+
+  it("nested path - in() nests every document", () => {
+    const { params } = compileLoadQuery(query.eventsOfType("T").where.key("address.city").in(["A", "B"]));
+    expect(params[1]).toEqual([
+      JSON.stringify({ address: { city: "A" } }),
+      JSON.stringify({ address: { city: "B" } }),
+    ]);
+  });
+
+  it("nested path - equals through an array index compares the value read with #>", () => {
+    const { sql, params } = compileLoadQuery(query.eventsOfType("T").where.key("items.0.sku").equals("x"));
+    expect(params).toEqual(["T", ["items", "0", "sku"], JSON.stringify({ v: "x" })]);
+    expect(sql).toContain(
+      "(payload #> $2::text[] IS NOT NULL AND jsonb_build_object('v', payload #> $2::text[]) @> $3::jsonb)",
+    );
+  });
+
+  it("nested path - in() and contains() through an array index wrap every value", () => {
+    const inQuery = compileLoadQuery(query.eventsOfType("T").where.key("items.-1").in(["a", "b"]));
+    expect(inQuery.params[2]).toEqual([JSON.stringify({ v: "a" }), JSON.stringify({ v: "b" })]);
+    expect(inQuery.sql).toContain("@> ANY($3::jsonb[])");
+    const containsQuery = compileLoadQuery(query.eventsOfType("T").where.key("items.0").contains("a"));
+    expect(containsQuery.params[2]).toBe(JSON.stringify({ v: ["a"] }));
+  });
+
+  it("nested path - a numeric top-level key stays a containment document", () => {
+    const { sql, params } = compileLoadQuery(query.eventsOfType("T").where.key("2024.total").equals(1));
+    expect(params[1]).toBe(JSON.stringify({ 2024: { total: 1 } }));
+    expect(sql).toContain("payload @> $2::jsonb");
+  });
+
+  it("nested path - range filters extract with #> and a text[] path", () => {
+    const { sql, params } = compileLoadQuery(query.eventsOfType("T").where.key("stats.score").gt(10));
+    expect(params).toEqual(["T", ["stats", "score"], 10]);
+    expect(sql).toContain("payload #>> $2::text[]");
+  });
+
+  it("metadata filter - containment against the metadata column", () => {
+    const q = query.eventsOfType("T").where.metadata("correlationId").equals("req-1");
+    const { sql, params } = compileLoadQuery(q);
+    expect(params[1]).toBe(JSON.stringify({ correlationId: "req-1" }));
+    expect(sql).toContain("(type = $1 AND (metadata IS NOT NULL AND metadata @> $2::jsonb))");
+  });
+
+  it("metadata filter - range extraction reads from metadata", () => {
+    const { sql } = compileLoadQuery(query.eventsOfType("T").where.metadata("attempt").gte(2));
+    expect(sql).toContain("jsonb_typeof(metadata #> $2::text[])");
+    expect(sql).not.toContain("payload #>");
+  });
+
+  it("taggedWith - array containment on the tags column", () => {
+    const q = query.eventsOfType("T").where.taggedWith("course:c1", "term:fall");
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual(["T", ["course:c1", "term:fall"]]);
+    expect(sql).toContain("(type = $1 AND tags @> $2::text[])");
+  });
+
+  it("notEquals - NOT around containment", () => {
+    const q = query.eventsOfType("StudentDropped").where.key("droppedBy").notEquals("s1");
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual(["StudentDropped", JSON.stringify({ droppedBy: "s1" })]);
+    expect(sql).toContain("(type = $1 AND NOT (payload @> $2::jsonb))");
+  });
+
+  it("exists - path extraction IS NOT NULL", () => {
+    const q = query.eventsOfType("CourseCreated").where.key("prerequisites.0").exists();
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual(["CourseCreated", ["prerequisites", "0"]]);
+    expect(sql).toContain("(type = $1 AND (payload #> $2::text[]) IS NOT NULL)");
+  });
+
+  it("missing - NOT around existence", () => {
+    const { sql } = compileLoadQuery(query.eventsOfType("T").where.metadata("causationId").missing());
+    expect(sql).toContain("NOT ((metadata #> $2::text[]) IS NOT NULL)");
+  });
+
+  it("not - wraps composite filters", () => {
+    const q = query.eventsOfType("T").where.key("a").equals(1).and.not.key("b").in([2, 3]);
+    const { sql } = compileLoadQuery(q);
+    expect(sql).toContain("(payload @> $2::jsonb AND NOT (payload @> ANY($3::jsonb[])))");
+  });
+
+  it("in filter - single jsonb[] parameter with containment ANY", () => {
+    const q = query.eventsOfType("StudentEnrolled").where.key("courseId").in(["c1", "c2", "c3"]);
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual([
+      "StudentEnrolled",
+      [JSON.stringify({ courseId: "c1" }), JSON.stringify({ courseId: "c2" }), JSON.stringify({ courseId: "c3" })],
+    ]);
+    expect(sql).toContain("WHERE (type = $1 AND payload @> ANY($2::jsonb[]))");
+  });
+
+  it("in filter - empty list matches nothing and adds no parameter", () => {
+    const { sql, params } = compileLoadQuery(query.eventsOfType("T").where.key("k").in([]));
+    expect(params).toEqual(["T"]);
+    expect(sql).toContain("(type = $1 AND false)");
+  });
+
+  it("contains - array containment document", () => {
+    const q = query.eventsOfType("CourseCreated").where.key("prerequisites").contains("c1");
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual(["CourseCreated", JSON.stringify({ prerequisites: ["c1"] })]);
+    expect(sql).toContain("(type = $1 AND payload @> $2::jsonb)");
+  });
+
+  it("containsAll - all elements in a single document", () => {
+    const q = query.eventsOfType("CourseCreated").where.key("meta.tags").containsAll(["a", "b"]);
+    const { params } = compileLoadQuery(q);
+    expect(params[1]).toBe(JSON.stringify({ meta: { tags: ["a", "b"] } }));
+  });
+
+  it("numeric range filter - typed payload extraction", () => {
+    const q = query.eventsOfType("StudentGraded").where.key("grade").lt(60);
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual(["StudentGraded", ["grade"], 60]);
+    expect(sql).toContain("jsonb_typeof(payload #> $2::text[]) = 'number'");
+    expect(sql).toContain("(payload #>> $2::text[])::numeric");
+    expect(sql).toContain("< $3::numeric, false)");
+  });
+
+  it("string range filter - compares text with C collation", () => {
+    const q = query.eventsOfType("T").where.key("semester").gte("2024");
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual(["T", ["semester"], "2024"]);
+    expect(sql).toContain("(payload #>> $2::text[]) COLLATE \"C\"");
+    expect(sql).toContain(">= $3::text, false)");
+  });
+
+  it("date range filter - casts to timestamptz", () => {
+    const q = query.eventsOfType("T").where.key("at").gt(new Date("2024-01-01T00:00:00Z"));
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual(["T", ["at"], "2024-01-01T00:00:00.000Z"]);
+    expect(sql).toContain("(payload #>> $2::text[])::timestamptz");
+    expect(sql).toContain("> $3::timestamptz, false)");
+  });
+
+  it("date range filter - casts only strings matching the timestamp pattern", () => {
+    const q = query.eventsOfType("T").where.key("at").gt(new Date("2024-01-01T00:00:00Z"));
+    const { sql } = compileLoadQuery(q);
+    expect(sql).toContain(`AND (payload #>> $2::text[]) ~ '${ISO_TIMESTAMP_PATTERN}' THEN`);
+  });
+
+  it("between filter - inclusive BETWEEN with both bounds parameterised", () => {
+    const q = query.eventsOfType("CourseCreated").where.key("creditHours").between(2, 4);
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual(["CourseCreated", ["creditHours"], 2, 4]);
+    expect(sql).toContain("BETWEEN $3::numeric AND $4::numeric, false)");
+  });
+
+  it("range filter combined with containment keeps numbering sequential", () => {
+    const q = query.eventsOfType("T").where.key("courseId").equals("c1").and.key("grade").gte(60);
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual(["T", JSON.stringify({ courseId: "c1" }), ["grade"], 60]);
+    expect(sql).toContain("payload @> $2::jsonb AND COALESCE(");
+    expect(sql).toContain(">= $4::numeric, false)");
+    expect(sql).not.toContain("$5");
+  });
+
+  it("bounds - AND-ed after the clauses with positions and timestamps parameterised", () => {
+    const q = query
+      .eventsOfType("A")
+      .eventsOfType("B")
+      .afterPosition(10n)
+      .untilPosition(20n)
+      .occurredBetween(new Date("2024-01-01T00:00:00Z"), new Date("2024-02-01T00:00:00Z"));
+    const { sql, params } = compileLoadQuery(q);
+    expect(params).toEqual([["A", "B"], 10n, 20n, "2024-01-01T00:00:00.000Z", "2024-02-01T00:00:00.000Z"]);
+    expect(sql).toContain(
+      "WHERE type = ANY($1::text[]) AND global_position > $2 AND global_position <= $3" +
+        " AND occurred_at >= $4::timestamptz AND occurred_at < $5::timestamptz",
+    );
+  });
+
+  it("bounds - only the bounds that are set are emitted", () => {
+    const { sql, params } = compileLoadQuery(query.eventsOfType("T").untilPosition(5n));
+    expect(params).toEqual(["T", 5n]);
+    expect(sql).toContain("WHERE type = $1 AND global_position <= $2");
+    expect(sql).not.toContain("occurred_at >=");
+  });
+
 });
 
 describe("compileVersionCheckQuery", () => {
@@ -117,6 +344,38 @@ describe("compileVersionCheckQuery", () => {
     expect(params).toEqual(["MyEvent"]);
     expect(sql).toContain("WHERE type = $1");
   });
+
+  it("includes range filters", () => {
+    const { sql, params } = compileVersionCheckQuery(query.eventsOfType("X").where.key("n").gt(3));
+    expect(params).toEqual(["X", ["n"], 3]);
+    expect(sql).toContain("> $3::numeric, false)");
+  });
+
+  it("includes bounds", () => {
+    const { sql, params } = compileVersionCheckQuery(query.eventsOfType("X").afterPosition(7n));
+    expect(params).toEqual(["X", 7n]);
+    expect(sql).toContain("WHERE type = $1 AND global_position > $2");
+  });
+});
+
+describe("compileExistsQuery", () => {
+  it("wraps the filtered select in EXISTS", () => {
+    const { sql, params } = compileExistsQuery(query.eventsOfType("X").where.key("k").equals(1));
+    expect(sql).toBe("SELECT EXISTS (\nSELECT 1 FROM events\nWHERE (type = $1 AND payload @> $2::jsonb)\n) AS found");
+    expect(params).toEqual(["X", JSON.stringify({ k: 1 })]);
+  });
+
+  it("never selects the payload", () => {
+    expect(compileExistsQuery(query.eventsOfType("X")).sql).not.toContain("payload");
+  });
+});
+
+describe("compileCountQuery", () => {
+  it("counts the filtered rows", () => {
+    const { sql, params } = compileCountQuery(query.eventsOfType("X").untilPosition(9n));
+    expect(sql).toBe("SELECT COUNT(*) AS count\nFROM events\nWHERE type = $1 AND global_position <= $2");
+    expect(params).toEqual(["X", 9n]);
+  });
 });
 
 describe("compileStreamQuery", () => {
@@ -139,44 +398,38 @@ describe("compileStreamQuery", () => {
 
   it("contains SELECT columns and FROM events", () => {
     const { sql } = compileStreamQuery(query.eventsOfType("E"), 0n, 10);
-    expect(sql).toContain("SELECT global_position, event_id, type, payload, metadata, occurred_at");
+    expect(sql).toContain("SELECT global_position, event_id, type, payload, metadata, tags, occurred_at");
     expect(sql).toContain("FROM events");
   });
-});
-
-describe("compileCanonicalKey", () => {
-  it("same query produces the same key", () => {
-    const q1 = query.eventsOfType("OrderCreated").where.key("customerId").equals("c1");
-    const q2 = query.eventsOfType("OrderCreated").where.key("customerId").equals("c1");
-    expect(compileCanonicalKey(q1)).toBe(compileCanonicalKey(q2));
-  });
-
-  it("different type name produces different key", () => {
-    expect(compileCanonicalKey(query.eventsOfType("A"))).not.toBe(compileCanonicalKey(query.eventsOfType("B")));
-  });
 
-  it("different filter value produces different key", () => {
-    const qa = query.eventsOfType("T").where.key("k").equals("v1");
-    const qb = query.eventsOfType("T").where.key("k").equals("v2");
-    expect(compileCanonicalKey(qa)).not.toBe(compileCanonicalKey(qb));
+  it("bounds come before the pagination cursor", () => {
+    const { sql, params } = compileStreamQuery(query.eventsOfType("X").untilPosition(100n), 0n, 10);
+    expect(params).toEqual(["X", 100n, 0n, 10]);
+    expect(sql).toContain("WHERE type = $1 AND global_position <= $2 AND global_position > $3");
+    expect(sql).toContain("LIMIT $4");
   });
+});
 
-  it("stable across multiple calls", () => {
-    const q = query.eventsOfType("OrderCreated").where.key("customerId").equals("c1");
-    const key = compileCanonicalKey(q);
-    expect(compileCanonicalKey(q)).toBe(key);
-    expect(compileCanonicalKey(q)).toBe(key);
+describe("compileBackwardStreamQuery", () => {
+  it("orders descending and leaves out the cursor on the first page", () => {
+    const { sql, params } = compileBackwardStreamQuery(query.eventsOfType("X"), null, 20);
+    expect(params).toEqual(["X", 20]);
+    expect(sql).toContain("WHERE type = $1\n");
+    expect(sql).toContain("ORDER BY global_position DESC");
+    expect(sql).toContain("LIMIT $2");
   });
 
-  it("multi-clause queries - clauses sorted alphabetically by type", () => {
-    const qAB = query.eventsOfType("A").eventsOfType("B");
-    const qBA = query.eventsOfType("B").eventsOfType("A");
-    expect(compileCanonicalKey(qAB)).toBe(compileCanonicalKey(qBA));
+  it("pages with AND global_position < cursor", () => {
+    const { sql, params } = compileBackwardStreamQuery(query.eventsOfType("X").afterPosition(5n), 50n, 10);
+    expect(params).toEqual(["X", 5n, 50n, 10]);
+    expect(sql).toContain("WHERE type = $1 AND global_position > $2 AND global_position < $3");
+    expect(sql).toContain("LIMIT $4");
   });
 
-  it("multi-clause with filters - sorted alphabetically", () => {
-    const qXY = query.eventsOfType("X").where.key("id").equals("1").eventsOfType("Y").where.key("id").equals("2");
-    const qYX = query.eventsOfType("Y").where.key("id").equals("2").eventsOfType("X").where.key("id").equals("1");
-    expect(compileCanonicalKey(qXY)).toBe(compileCanonicalKey(qYX));
+  it("paramOffset shifts param numbering", () => {
+    const { sql } = compileBackwardStreamQuery(query.eventsOfType("X"), 9n, 100, 2);
+    expect(sql).toContain("type = $3");
+    expect(sql).toContain("global_position < $4");
+    expect(sql).toContain("LIMIT $5");
   });
 });
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { matches } from '../../src/query/matcher.js';
+import { query } from '../../src/query/query-object.js';
+import type { StoredEvent } from '../../src/types.js';
+import { conformanceCases, conformanceEvents } from '../shared/query-conformance.js';
+
+const storedEvents: StoredEvent[] = conformanceEvents.map((e, i) => ({
+  globalPosition: BigInt(i + 1),
+  eventId: `00000000-0000-0000-0000-00000000000${i + 1}`,
+  type: e.type,
+  payload: e.payload,
+  metadata: e.metadata,
+  tags: e.tags,
+  occurredAt: new Date(e.occurredAt),
+}));
+
+function event(type: string, payload: Record<string, unknown>): StoredEvent {
+  return { globalPosition: 1n, eventId: 'e', type, payload, metadata: null, tags: [], occurredAt: new Date() };
+}
+
+describe('matches — conformance with the SQL compiler', () => {
+  it.each(conformanceCases)('$name', ({ query: q, expected }) => {
+    const selected = storedEvents.filter((e) => matches(q, e)).map((e) => e.payload['n']);
+    expect(selected).toEqual(expected);
+  });
+});
+
+describe('matches', () => {
+  it('compares equals() values as their JSON form', () => {
+    const q = query.eventsOfType('T').where.key('at').equals(new Date('2024-01-01T00:00:00Z'));
+    expect(matches(q, event('T', { at: '2024-01-01T00:00:00.000Z' }))).toBe(true);
+  });
+
+  it('ignores inherited object properties', () => {
+    expect(matches(query.eventsOfType('T').where.key('constructor').exists(), event('T', {}))).toBe(false);
+  });
+
+  it('does not match a date range on an unparseable value', () => {
+    const q = query.eventsOfType('T').where.key('at').gt(new Date('2024-01-01'));
+    expect(matches(q, event('T', { at: 'soon' }))).toBe(false);
+  });
+});
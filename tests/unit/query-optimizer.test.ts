@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { query } from '../../src/query/query-object.js';
+import { optimizeClauses, simplifyFilter } from '../../src/query/optimizer.js';
+import { compileLoadQuery } from '../../src/query/compiler.js';
+import { matches } from '../../src/query/matcher.js';
+import type { FilterNode, QueryDefinition } from '../../src/query/types.js';
+import type { StoredEvent } from '../../src/types.js';
+import { conformanceCases, conformanceEvents } from '../shared/query-conformance.js';
+
+const a: FilterNode = { kind: 'attr', key: 'a', value: 1 };
+const b: FilterNode = { kind: 'attr', key: 'b', value: 2 };
+const c: FilterNode = { kind: 'exists', key: 'c' };
+
+function courseStream(courseId: string) {
+  return query
+    .eventsOfType('CourseCreated').where.key('courseId').equals(courseId)
+    .eventsOfType('CoursePublished').where.key('courseId').equals(courseId)
+    .eventsOfType('CourseClosed').where.key('courseId').equals(courseId)
+    .eventsOfType('CourseCancelled').where.key('courseId').equals(courseId)
+    .eventsOfType('TeacherAssignedToCourse').where.key('courseId').equals(courseId)
+    .eventsOfType('TeacherRemovedFromCourse').where.key('courseId').equals(courseId);
+}
+
+describe('simplifyFilter', () => {
+  it('inlines nested nodes of the same kind', () => {
+    expect(simplifyFilter({ kind: 'and', filters: [a, { kind: 'and', filters: [b, c] }] }))
+      .toEqual({ kind: 'and', filters: [a, b, c] });
+  });
+
+  it('keeps nested nodes of the other kind', () => {
+    const node: FilterNode = { kind: 'and', filters: [a, { kind: 'or', filters: [b, c] }] };
+    expect(simplifyFilter(node)).toEqual(node);
+  });
+
+  it('drops duplicate children and unwraps a single remaining child', () => {
+    expect(simplifyFilter({ kind: 'or', filters: [a, b, a] })).toEqual({ kind: 'or', filters: [a, b] });
+    expect(simplifyFilter({ kind: 'and', filters: [a, { kind: 'and', filters: [a] }] })).toEqual(a);
+  });
+
+  it('removes double negation', () => {
+    expect(simplifyFilter({ kind: 'not', filter: { kind: 'not', filter: a } })).toEqual(a);
+    expect(simplifyFilter({ kind: 'not', filter: { kind: 'or', filters: [a] } })).toEqual({ kind: 'not', filter: a });
+  });
+});
+
+describe('optimizeClauses', () => {
+  it('groups clauses with an identical filter into one type list', () => {
+    expect(optimizeClauses(courseStream('c1')._clauses)).toEqual([{
+      type: ['CourseCreated', 'CoursePublished', 'CourseClosed', 'CourseCancelled', 'TeacherAssignedToCourse', 'TeacherRemovedFromCourse'],
+      filter: { kind: 'attr', key: 'courseId', value: 'c1' },
+    }]);
+  });
+
+  it('groups unfiltered clauses and type lists', () => {
+    const q = query.eventsOfType('A').eventsOfTypes(['B', 'A']).eventsOfType('C').where.key('a').equals(1);
+    expect(optimizeClauses(q._clauses)).toEqual([
+      { type: ['A', 'B'], filter: null },
+      { type: 'C', filter: a },
+    ]);
+  });
+
+  it('compares filters after simplification', () => {
+    const q = query
+      .eventsOfType('A').where.key('a').equals(1).and.key('b').equals(2)
+      .eventsOfType('B').where.group((g) => g.key('a').equals(1)).and.key('b').equals(2);
+    expect(optimizeClauses(q._clauses)).toEqual([{ type: ['A', 'B'], filter: { kind: 'and', filters: [a, b] } }]);
+  });
+
+  it('merges prefix clauses only with the same prefix', () => {
+    const q = query
+      .eventsOfTypePrefix('Course').where.key('a').equals(1)
+      .eventsOfTypePrefix('Course').where.key('a').equals(1)
+      .eventsOfType('Student').where.key('a').equals(1)
+      .eventsOfTypePrefix('Teacher').where.key('a').equals(1);
+    expect(optimizeClauses(q._clauses)).toEqual([
+      { type: 'Course', prefix: true, filter: a },
+      { type: 'Student', filter: a },
+      { type: 'Teacher', prefix: true, filter: a },
+    ]);
+  });
+
+  it('drops clauses that match nothing but keeps one when nothing else is left', () => {
+    expect(optimizeClauses([{ type: [], filter: a }, { type: 'A', filter: null }])).toEqual([{ type: 'A', filter: null }]);
+    expect(optimizeClauses([{ type: [], filter: a }])).toEqual([{ type: [], filter: null }]);
+  });
+});
+
+describe('compiled SQL', () => {
+  it('a six-clause course stream compiles to two parameters', () => {
+    const { sql, params } = compileLoadQuery(courseStream('c1'));
+    expect(sql).toContain('WHERE (type = ANY($1::text[]) AND payload @> $2::jsonb)');
+    expect(params).toHaveLength(2);
+    expect(compileLoadQuery(courseStream('c1'), { optimize: false }).params).toHaveLength(12);
+  });
+
+  it('leaves the query definition as written', () => {
+    const q = courseStream('c1');
+    compileLoadQuery(q);
+    expect(q._clauses).toHaveLength(6);
+  });
+});
+
+describe('optimisation keeps result sets identical', () => {
+  const storedEvents: StoredEvent[] = conformanceEvents.map((e, i) => ({
+    globalPosition: BigInt(i + 1),
+    eventId: `e${i + 1}`,
+    type: e.type,
+    payload: e.payload,
+    metadata: e.metadata,
+    tags: e.tags,
+    occurredAt: new Date(e.occurredAt),
+  }));
+  const selected = (q: QueryDefinition): bigint[] =>
+    storedEvents.filter((e) => matches(q, e)).map((e) => e.globalPosition);
+
+  it.each(conformanceCases)('$name', ({ query: q }) => {
+    expect(selected({ ...q, _clauses: optimizeClauses(q._clauses) })).toEqual(selected(q));
+  });
+});
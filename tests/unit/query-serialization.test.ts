@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { query } from '../../src/query/query-object.js';
+import { serializeQuery, parseQuery } from '../../src/query/serialization.js';
+import { compileLoadQuery } from '../../src/query/compiler.js';
+import { InvalidQueryError } from '../../src/errors.js';
+import type { QueryDefinition } from '../../src/query/types.js';
+
+function roundTrip(q: QueryDefinition): QueryDefinition {
+  return parseQuery(JSON.stringify(serializeQuery(q)));
+}
+
+function parseError(input: unknown): InvalidQueryError {
+  try {
+    parseQuery(input);
+  } catch (err) {
+    if (err instanceof InvalidQueryError) return err;
+    throw err;
+  }
+  throw new Error('expected parseQuery to throw');
+}
+
+const valid = { version: 1, clauses: [{ type: 'T', filter: null }] };
+
+describe('serializeQuery', () => {
+  it('produces a versioned document', () => {
+    expect(serializeQuery(query.eventsOfType('T'))).toEqual({ version: 1, clauses: [{ type: 'T', filter: null }] });
+  });
+
+  it('keeps prefix flags and type lists', () => {
+    const doc = serializeQuery(query.eventsOfTypePrefix('Student').eventsOfTypes(['A', 'B']));
+    expect(doc.clauses).toEqual([
+      { type: 'Student', prefix: true, filter: null },
+      { type: ['A', 'B'], filter: null },
+    ]);
+  });
+
+  it('writes positions as strings and timestamps as ISO-8601', () => {
+    const q = query.eventsOfType('T')
+      .afterPosition(9007199254740993n)
+      .occurredBetween(new Date('2024-01-01T00:00:00Z'), new Date('2024-02-01T00:00:00Z'));
+    expect(serializeQuery(q).bounds).toEqual({
+      afterPosition: '9007199254740993',
+      occurredFrom: '2024-01-01T00:00:00.000Z',
+      occurredTo: '2024-02-01T00:00:00.000Z',
+    });
+  });
+
+  it('does not share filter objects with the query', () => {
+    const q = query.eventsOfType('T').where.key('k').in(['a']);
+    const doc = serializeQuery(q);
+    expect(doc.clauses[0]!.filter).toEqual(q._clauses[0]!.filter);
+    expect(doc.clauses[0]!.filter).not.toBe(q._clauses[0]!.filter);
+  });
+});
+
+describe('parseQuery', () => {
+  it('round-trips every filter kind to the same SQL', () => {
+    const q = query.eventsOfType('A')
+      .where.key('a.b').equals({ x: [1, null] })
+      .and.metadata('tenant').in(['t1', 't2'])
+      .and.not.key('tags').contains('x')
+      .and.taggedWith('course:c1')
+      .and.group((g) => g.key('n').gte(3).or.key('d').between(new Date('2024-01-01'), new Date('2024-02-01')))
+      .and.key('s').missing()
+      .eventsOfTypes(['B', 'C'])
+      .eventsOfTypePrefix('Course')
+      .where.key('k').lt('m')
+      .untilPosition(42n);
+    const parsed = roundTrip(q);
+    expect(compileLoadQuery(parsed)).toEqual(compileLoadQuery(q));
+  });
+
+  it('accepts an already-parsed object', () => {
+    expect(parseQuery(valid)._clauses).toEqual([{ type: 'T', filter: null }]);
+  });
+
+  it('treats a missing filter as no filter', () => {
+    expect(parseQuery({ version: 1, clauses: [{ type: 'T' }] })._clauses).toEqual([{ type: 'T', filter: null }]);
+  });
+
+  it('normalises date range operands to ISO-8601', () => {
+    const q = parseQuery({
+      version: 1,
+      clauses: [{ type: 'T', filter: { kind: 'range', key: 'at', op: 'gt', valueType: 'date', value: '2024-01-01T02:00:00+02:00' } }],
+    });
+    expect(q._clauses[0]!.filter).toMatchObject({ value: '2024-01-01T00:00:00.000Z' });
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(parseError('{nope').path).toBe('$');
+  });
+
+  it.each([
+    ['a non-object document', [], '$'],
+    ['an unsupported version', { ...valid, version: 2 }, '$.version'],
+    ['a missing version', { clauses: valid.clauses }, '$.version'],
+    ['an unknown top-level property', { ...valid, extra: true }, '$.extra'],
+    ['an empty clause list', { version: 1, clauses: [] }, '$.clauses'],
+    ['an empty type', { version: 1, clauses: [{ type: '' }] }, '$.clauses[0].type'],
+    ['a non-string type in a list', { version: 1, clauses: [{ type: ['A', 1] }] }, '$.clauses[0].type[1]'],
+    ['a prefix on a type list', { version: 1, clauses: [{ type: ['A'], prefix: true }] }, '$.clauses[0].prefix'],
+    ['an unknown clause property', { version: 1, clauses: [{ type: 'T', sql: '1=1' }] }, '$.clauses[0].sql'],
+  ])('rejects %s', (_label, input, path) => {
+    expect(parseError(input).path).toBe(path);
+  });
+
+  it.each([
+    ['an unknown kind', { kind: 'raw', sql: 'true' }, '$.clauses[0].filter.kind'],
+    ['a non-object filter', 'k = 1', '$.clauses[0].filter'],
+    ['a missing value', { kind: 'attr', key: 'k' }, '$.clauses[0].filter.value'],
+    ['an empty key segment', { kind: 'exists', key: ['a', ''] }, '$.clauses[0].filter.key[1]'],
+    ['an unknown source', { kind: 'exists', key: 'k', source: 'type' }, '$.clauses[0].filter.source'],
+    ['an unknown range operator', { kind: 'range', key: 'k', op: 'ne', valueType: 'number', value: 1 }, '$.clauses[0].filter.op'],
+    ['a range operand of the wrong type', { kind: 'range', key: 'k', op: 'gt', valueType: 'number', value: '1' }, '$.clauses[0].filter.value'],
+    ['an invalid date operand', { kind: 'between', key: 'k', valueType: 'date', from: 'x', to: '2024-01-01' }, '$.clauses[0].filter.from'],
+    ['a bare number as a date operand', { kind: 'range', key: 'k', op: 'gt', valueType: 'date', value: '1' }, '$.clauses[0].filter.value'],
+    ['a month name as a date operand', { kind: 'range', key: 'k', op: 'gt', valueType: 'date', value: 'March 7' }, '$.clauses[0].filter.value'],
+    ['a date operand without an offset', { kind: 'between', key: 'k', valueType: 'date', from: '2024-01-01T00:00:00Z', to: '2024-02-01T00:00:00' }, '$.clauses[0].filter.to'],
+    ['a non-array values list', { kind: 'in', key: 'k', values: 'a' }, '$.clauses[0].filter.values'],
+    ['an empty tag list', { kind: 'tags', tags: [] }, '$.clauses[0].filter.tags'],
+    ['an empty tag', { kind: 'tags', tags: ['a', ''] }, '$.clauses[0].filter.tags[1]'],
+    ['an empty and-node', { kind: 'and', filters: [] }, '$.clauses[0].filter.filters'],
+    ['an invalid nested filter', { kind: 'not', filter: { kind: 'or', filters: [{ kind: 'exists' }] } }, '$.clauses[0].filter.filter.filters[0].key'],
+    ['an extra property on a filter', { kind: 'exists', key: 'k', value: 1 }, '$.clauses[0].filter.value'],
+  ])('rejects a filter with %s', (_label, filter, path) => {
+    expect(parseError({ version: 1, clauses: [{ type: 'T', filter }] }).path).toBe(path);
+  });
+
+  it('rejects filters nested too deeply', () => {
+    let filter: unknown = { kind: 'exists', key: 'k' };
+    for (let i = 0; i < 40; i++) filter = { kind: 'not', filter };
+    expect(parseError({ version: 1, clauses: [{ type: 'T', filter }] }).message).toMatch(/at most 32 levels/);
+  });
+
+  it('rejects non-JSON values passed as objects', () => {
+    const filter = { kind: 'attr', key: 'k', value: { when: new Date() } };
+    expect(parseError({ version: 1, clauses: [{ type: 'T', filter }] }).path).toBe('$.clauses[0].filter.value.when');
+  });
+
+  it.each([
+    ['a negative position', { afterPosition: '-1' }, '$.bounds.afterPosition'],
+    ['a numeric position', { untilPosition: 5 }, '$.bounds.untilPosition'],
+    ['an invalid timestamp', { occurredFrom: 'yesterday' }, '$.bounds.occurredFrom'],
+    ['a bare number as a timestamp', { occurredFrom: '5' }, '$.bounds.occurredFrom'],
+    ['a month name as a timestamp', { occurredTo: 'March 7' }, '$.bounds.occurredTo'],
+    ['a timestamp without an offset', { occurredFrom: '2024-01-01T00:00:00' }, '$.bounds.occurredFrom'],
+    ['a date without a time', { occurredTo: '2024-01-01' }, '$.bounds.occurredTo'],
+    ['a reversed time window', { occurredFrom: '2024-02-01T00:00:00Z', occurredTo: '2024-01-01T00:00:00Z' }, '$.bounds'],
+    ['an unknown bound', { beforePosition: '1' }, '$.bounds.beforePosition'],
+  ])('rejects bounds with %s', (_label, bounds, path) => {
+    expect(parseError({ ...valid, bounds }).path).toBe(path);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { query } from '../../src/query/query-object.js';
+import type { QueryEvent, StoredEvent } from '../../src/types.js';
+
+interface Address {
+  city: string;
+  zip?: string;
+}
+
+interface Events {
+  StudentRegistered: { studentId: string; name: string; address: Address };
+  StudentEnrolled: { studentId: string; courseId: string; tags: string[] };
+  StudentGraded: { studentId: string; courseId: string; grade: number; gradedAt: string };
+  CourseCreated: { courseId: string; creditHours: number };
+}
+
+const q = query.typed<Events>();
+
+describe('typed query DSL', () => {
+  it('builds the same clauses as the untyped DSL', () => {
+    const typed = q.eventsOfType('StudentGraded').where.key('grade').lt(60);
+    const untyped = query.eventsOfType('StudentGraded').where.key('grade').lt(60);
+    expect(typed._clauses).toEqual(untyped._clauses);
+  });
+
+  it('accepts only known event types', () => {
+    q.eventsOfType('CourseCreated');
+    q.eventsOfTypes(['StudentEnrolled', 'StudentGraded']);
+    // @ts-expect-error — not an event type of the map
+    q.eventsOfType('CourseDeleted');
+    // @ts-expect-error — not an event type of the map
+    q.eventsOfType('CourseCreated').eventsOfType('Nope');
+    expect(true).toBe(true);
+  });
+
+  it('accepts only payload keys of the current clause', () => {
+    q.eventsOfType('StudentRegistered').where.key('address.city').equals('Zurich');
+    // @ts-expect-error — courseId is not a StudentRegistered key
+    q.eventsOfType('StudentRegistered').where.key('courseId');
+    // @ts-expect-error — a key of the previous clause, not the current one
+    q.eventsOfType('CourseCreated').eventsOfType('StudentRegistered').where.key('creditHours');
+    // @ts-expect-error — path segment arrays are untyped
+    q.eventsOfType('StudentRegistered').where.key(['address', 'city']);
+    expect(true).toBe(true);
+  });
+
+  it('multi-type clauses accept only keys common to every type', () => {
+    q.eventsOfTypes(['StudentEnrolled', 'StudentGraded']).where.key('courseId').equals('c1');
+    // @ts-expect-error — grade is not a StudentEnrolled key
+    q.eventsOfTypes(['StudentEnrolled', 'StudentGraded']).where.key('grade');
+    expect(true).toBe(true);
+  });
+
+  it('checks values against the key type', () => {
+    q.eventsOfType('StudentGraded').where.key('grade').equals(80).and.key('studentId').in(['s1', 's2']);
+    q.eventsOfType('StudentEnrolled').where.key('tags').contains('honours');
+    q.eventsOfType('StudentGraded').where.key('gradedAt').gte(new Date('2024-01-01'));
+    q.eventsOfType('StudentRegistered').where.key('address.zip').equals('8000');
+    // @ts-expect-error — grade is a number
+    q.eventsOfType('StudentGraded').where.key('grade').equals('80');
+    // @ts-expect-error — courseId is a string
+    q.eventsOfType('StudentGraded').where.key('courseId').gt(3);
+    // @ts-expect-error — grade is not an array
+    q.eventsOfType('StudentGraded').where.key('grade').contains(1);
+    // @ts-expect-error — tags holds strings
+    q.eventsOfType('StudentEnrolled').where.key('tags').containsAll([1]);
+    expect(true).toBe(true);
+  });
+
+  it('keeps group(), not and metadata() typed', () => {
+    q.eventsOfType('StudentGraded')
+      .where.not.key('grade').lt(50)
+      .and.group((g) => g.key('courseId').equals('c1').or.metadata('tenant').equals(42));
+    // @ts-expect-error — grade is a number
+    q.eventsOfType('StudentGraded').where.group((g) => g.key('grade').equals('x'));
+    expect(true).toBe(true);
+  });
+
+  it('narrows prefix clauses to the matching event types', () => {
+    const qd = q.eventsOfTypePrefix('Course');
+    expectTypeOf<QueryEvent<typeof qd>['type']>().toEqualTypeOf<'CourseCreated'>();
+    qd.where.key('creditHours').gte(3);
+  });
+
+  it('loads a discriminated union of the queried event types', () => {
+    const qd = q.eventsOfType('StudentEnrolled').eventsOfType('StudentGraded').where.key('grade').lt(60);
+    type Loaded = QueryEvent<typeof qd>;
+    expectTypeOf<Loaded['type']>().toEqualTypeOf<'StudentEnrolled' | 'StudentGraded'>();
+
+    const narrow = (e: Loaded): number | undefined => (e.type === 'StudentGraded' ? e.payload.grade : undefined);
+    expectTypeOf(narrow).returns.toEqualTypeOf<number | undefined>();
+  });
+
+  it('leaves untyped queries untyped', () => {
+    const qd = query.eventsOfType('Anything').where.key(['a', 'b']).equals({ any: 'value' });
+    expectTypeOf<QueryEvent<typeof qd>>().toEqualTypeOf<StoredEvent>();
+    let widened = query.eventsOfType('A');
+    widened = widened.eventsOfType('B');
+    expect(widened._clauses).toHaveLength(2);
+  });
+});
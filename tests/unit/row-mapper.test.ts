@@ -8,6 +8,7 @@ const baseRow: EventRow = {
   type: 'OrderCreated',
   payload: { orderId: 'o1', customerId: 'c1' },
   metadata: { correlationId: 'corr-1' },
+  tags: ['order:o1'],
   occurred_at: new Date('2024-01-01T00:00:00.000Z'),
 };
 
@@ -21,6 +22,7 @@ describe('mapRow', () => {
       expect(result).toHaveProperty('type');
       expect(result).toHaveProperty('payload');
       expect(result).toHaveProperty('metadata');
+      expect(result).toHaveProperty('tags');
       expect(result).toHaveProperty('occurredAt');
     });
 
@@ -91,6 +93,18 @@ describe('mapRow', () => {
     });
   });
 
+  describe('Tags handling', () => {
+    it('preserves tags in order', () => {
+      const result = mapRow({ ...baseRow, tags: ['order:o1', 'customer:c1'] });
+      expect(result.tags).toEqual(['order:o1', 'customer:c1']);
+    });
+
+    it('preserves an empty tag list as []', () => {
+      const result = mapRow({ ...baseRow, tags: [] });
+      expect(result.tags).toEqual([]);
+    });
+  });
+
   describe('Payload handling', () => {
     it('preserves empty payload as {}', () => {
       const result = mapRow({ ...baseRow, payload: {} });
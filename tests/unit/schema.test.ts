@@ -1,10 +1,13 @@
 import { describe, it, expect, vi } from 'vitest';
 import {
   DDL_CREATE_TABLE,
+  DDL_ADD_TAGS_COLUMN,
   DDL_CREATE_GIN_INDEX,
   DDL_TUNE_GIN_INDEX,
   DDL_CREATE_TYPE_POSITION_INDEX,
   DDL_CREATE_BRIN_INDEX,
+  DDL_CREATE_TAGS_GIN_INDEX,
+  DDL_CREATE_METADATA_GIN_INDEX,
   DDL_TUNE_AUTOVACUUM,
   applySchema,
 } from '../../src/store/schema.js';
@@ -12,10 +15,12 @@ import {
 // Combine all DDL for full-text searches
 const ALL_DDL = [
   DDL_CREATE_TABLE,
+  DDL_ADD_TAGS_COLUMN,
   DDL_CREATE_GIN_INDEX,
   DDL_TUNE_GIN_INDEX,
   DDL_CREATE_TYPE_POSITION_INDEX,
   DDL_CREATE_BRIN_INDEX,
+  DDL_CREATE_TAGS_GIN_INDEX,
   DDL_TUNE_AUTOVACUUM,
 ].join('\n');
 
@@ -51,6 +56,10 @@ describe('DDL_CREATE_TABLE', () => {
     expect(metadataLine).not.toMatch(/NOT NULL/i);
   });
 
+  it("defines tags as TEXT[] NOT NULL DEFAULT '{}'", () => {
+    expect(DDL_CREATE_TABLE).toMatch(/tags\s+TEXT\[\]\s+NOT NULL\s+DEFAULT '\{\}'/i);
+  });
+
   it('defines occurred_at as TIMESTAMPTZ NOT NULL DEFAULT NOW()', () => {
     expect(DDL_CREATE_TABLE).toMatch(/occurred_at\s+TIMESTAMPTZ\s+NOT NULL\s+DEFAULT NOW\(\)/i);
   });
@@ -112,6 +121,44 @@ describe('DDL_CREATE_BRIN_INDEX', () => {
   });
 });
 
+describe('DDL_ADD_TAGS_COLUMN', () => {
+  it('adds the tags column to an existing table', () => {
+    expect(DDL_ADD_TAGS_COLUMN).toMatch(/ALTER TABLE events ADD COLUMN IF NOT EXISTS tags TEXT\[\]/i);
+  });
+
+  it('matches the column definition of DDL_CREATE_TABLE', () => {
+    expect(DDL_ADD_TAGS_COLUMN).toContain("NOT NULL DEFAULT '{}'");
+  });
+});
+
+describe('DDL_CREATE_TAGS_GIN_INDEX', () => {
+  it('creates idx_events_tags_gin', () => {
+    expect(DDL_CREATE_TAGS_GIN_INDEX).toContain('idx_events_tags_gin');
+  });
+
+  it('uses GIN on the tags array', () => {
+    expect(DDL_CREATE_TAGS_GIN_INDEX).toMatch(/USING GIN \(tags\)/i);
+  });
+
+  it('uses IF NOT EXISTS', () => {
+    expect(DDL_CREATE_TAGS_GIN_INDEX).toContain('IF NOT EXISTS');
+  });
+});
+
+describe('DDL_CREATE_METADATA_GIN_INDEX', () => {
+  it('creates idx_events_metadata_gin', () => {
+    expect(DDL_CREATE_METADATA_GIN_INDEX).toContain('idx_events_metadata_gin');
+  });
+
+  it('uses GIN with jsonb_path_ops on metadata', () => {
+    expect(DDL_CREATE_METADATA_GIN_INDEX).toMatch(/USING GIN \(metadata jsonb_path_ops\)/i);
+  });
+
+  it('uses IF NOT EXISTS', () => {
+    expect(DDL_CREATE_METADATA_GIN_INDEX).toContain('IF NOT EXISTS');
+  });
+});
+
 describe('DDL_TUNE_AUTOVACUUM', () => {
   it('sets autovacuum_vacuum_scale_factor to 0.01', () => {
     expect(DDL_TUNE_AUTOVACUUM).toContain('autovacuum_vacuum_scale_factor');
@@ -136,11 +183,11 @@ describe('idx_events_type absence', () => {
 });
 
 describe('applySchema()', () => {
-  it('calls client.query exactly 6 times', async () => {
+  it('calls client.query exactly 8 times', async () => {
     const mockQuery = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 });
     const mockClient = { query: mockQuery } as unknown as Parameters<typeof applySchema>[0];
     await applySchema(mockClient);
-    expect(mockQuery).toHaveBeenCalledTimes(6);
+    expect(mockQuery).toHaveBeenCalledTimes(8);
   });
 
   it('executes DDL statements in the correct order', async () => {
@@ -153,10 +200,38 @@ describe('applySchema()', () => {
     } as unknown as Parameters<typeof applySchema>[0];
     await applySchema(mockClient);
     expect(calls[0]).toBe(DDL_CREATE_TABLE);
-    expect(calls[1]).toBe(DDL_CREATE_GIN_INDEX);
-    expect(calls[2]).toBe(DDL_TUNE_GIN_INDEX);
-    expect(calls[3]).toBe(DDL_CREATE_TYPE_POSITION_INDEX);
-    expect(calls[4]).toBe(DDL_CREATE_BRIN_INDEX);
-    expect(calls[5]).toBe(DDL_TUNE_AUTOVACUUM);
+    expect(calls[1]).toBe(DDL_ADD_TAGS_COLUMN);
+    expect(calls[2]).toBe(DDL_CREATE_GIN_INDEX);
+    expect(calls[3]).toBe(DDL_TUNE_GIN_INDEX);
+    expect(calls[4]).toBe(DDL_CREATE_TYPE_POSITION_INDEX);
+    expect(calls[5]).toBe(DDL_CREATE_BRIN_INDEX);
+    expect(calls[6]).toBe(DDL_CREATE_TAGS_GIN_INDEX);
+    expect(calls[7]).toBe(DDL_TUNE_AUTOVACUUM);
+  });
+
+  it('does not create the metadata index by default', async () => {
+    const calls: string[] = [];
+    const mockClient = {
+      query: vi.fn().mockImplementation((sql: string) => {
+        calls.push(sql);
+        return Promise.resolve({ rows: [], rowCount: 0 });
+      }),
+    } as unknown as Parameters<typeof applySchema>[0];
+    await applySchema(mockClient);
+    expect(calls).not.toContain(DDL_CREATE_METADATA_GIN_INDEX);
+  });
+
+  it('creates the metadata index before autovacuum tuning when metadataIndex is set', async () => {
+    const calls: string[] = [];
+    const mockClient = {
+      query: vi.fn().mockImplementation((sql: string) => {
+        calls.push(sql);
+        return Promise.resolve({ rows: [], rowCount: 0 });
+      }),
+    } as unknown as Parameters<typeof applySchema>[0];
+    await applySchema(mockClient, { metadataIndex: true });
+    expect(calls).toHaveLength(9);
+    expect(calls[7]).toBe(DDL_CREATE_METADATA_GIN_INDEX);
+    expect(calls[8]).toBe(DDL_TUNE_AUTOVACUUM);
   });
 });
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { StatementCache } from '../../src/store/statement-cache.js';
+
+describe('StatementCache', () => {
+  it('returns the same name for the same SQL and distinct names otherwise', () => {
+    const cache = new StatementCache(10);
+    const a = cache.nameFor('SELECT 1');
+    expect(cache.nameFor('SELECT 1')).toBe(a);
+    expect(cache.nameFor('SELECT 2')).not.toBe(a);
+    expect(cache.size).toBe(2);
+  });
+
+  it('evicts the least recently used SQL beyond maxStatements', () => {
+    const cache = new StatementCache(2);
+    const a = cache.nameFor('A');
+    cache.nameFor('B');
+    cache.nameFor('A'); // A is now more recent than B
+    cache.nameFor('C'); // evicts B
+    expect(cache.size).toBe(2);
+    expect(cache.nameFor('A')).toBe(a);
+  });
+
+  it('never reuses a name after eviction', () => {
+    const cache = new StatementCache(1);
+    const a = cache.nameFor('A');
+    cache.nameFor('B');
+    expect(cache.nameFor('A')).not.toBe(a);
+  });
+
+  it('returns evicted names once per connection that prepared them', () => {
+    const cache = new StatementCache(1);
+    const [first, second] = [{}, {}];
+    const a = cache.nameFor('A');
+    cache.markPrepared(first, a);
+    expect(cache.takeEvicted(first)).toEqual([]);
+
+    const b = cache.nameFor('B');
+    cache.markPrepared(first, b);
+    expect(cache.takeEvicted(first)).toEqual([a]);
+    expect(cache.takeEvicted(first)).toEqual([]);
+    expect(cache.takeEvicted(second)).toEqual([]);
+  });
+});
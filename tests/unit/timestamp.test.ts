@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { ISO_TIMESTAMP_PATTERN, parseIsoTimestamp } from '../../src/query/timestamp.js';
+
+describe('parseIsoTimestamp', () => {
+  it.each([
+    ['2024-01-10T09:00:00.000Z', Date.UTC(2024, 0, 10, 9)],
+    ['2024-02-10T09:00:00+02:00', Date.UTC(2024, 1, 10, 7)],
+    ['2024-02-10T09:00-05:30', Date.UTC(2024, 1, 10, 14, 30)],
+    ['2024-02-29T00:00:00Z', Date.UTC(2024, 1, 29)],
+    ['2000-02-29T00:00:00Z', Date.UTC(2000, 1, 29)],
+  ])('reads %s', (value, expected) => {
+    expect(parseIsoTimestamp(value)).toBe(expected);
+  });
+
+  it.each([
+    'TBD',
+    '',
+    '2024-02-10',
+    '2024-02-10T09:00:00',
+    '2024-02-10 09:00:00Z',
+    '2024-02-30T09:00:00Z',
+    '2023-02-29T09:00:00Z',
+    '1900-02-29T09:00:00Z',
+    '2024-04-31T09:00:00Z',
+    '0000-01-01T00:00:00Z',
+    '2024-01-01T24:00:00Z',
+    '2024-01-01T23:59:60Z',
+    '2024-01-01T00:00:00.0000Z',
+    '2024-01-01T00:00:00+15:00',
+    ' 2024-01-01T00:00:00Z',
+  ])('rejects %j', (value) => {
+    expect(parseIsoTimestamp(value)).toBeUndefined();
+  });
+
+  it('keeps the pattern free of quotes and backslashes for SQL inlining', () => {
+    expect(ISO_TIMESTAMP_PATTERN).not.toMatch(/['\\]/);
+  });
+});
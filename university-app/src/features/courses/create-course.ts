@@ -57,8 +57,7 @@ export async function createCourse(
 
   // Validate each prerequisite course exists
   for (const prereqId of prerequisites) {
-    const { events } = await store.load(courseStream(prereqId));
-    if (events.length === 0) {
+    if (!(await store.exists(courseStream(prereqId)))) {
       throw new PrerequisiteNotFoundError(`Prerequisite course '${prereqId}' does not exist`);
     }
   }
@@ -20,6 +20,7 @@ function makeEvent(type: string, payload: Record<string, unknown>): StoredEvent
     type,
     payload,
     metadata: null,
+    tags: [],
     occurredAt: new Date(),
   };
 }
@@ -27,6 +28,13 @@ function makeEvent(type: string, payload: Record<string, unknown>): StoredEvent
 function makeMockStore(overrides: Partial<EventStore> = {}): EventStore {
   return {
     load: vi.fn().mockResolvedValue({ events: [], version: 0n }),
+    loadLast: vi.fn().mockResolvedValue({ events: [], version: 0n }),
+    loadMany: vi.fn().mockImplementation((queries: object) => Promise.resolve(
+      Object.fromEntries(Object.keys(queries).map((key) => [key, { events: [], version: 0n }])),
+    )),
+    exists: vi.fn().mockResolvedValue(false),
+    count: vi.fn().mockResolvedValue(0),
+    headPosition: vi.fn().mockResolvedValue(0n),
     append: vi.fn().mockResolvedValue([]),
     stream: vi.fn().mockReturnValue((async function* () {})()),
     initializeSchema: vi.fn().mockResolvedValue(undefined),
@@ -78,7 +86,7 @@ describe('createCourse validations', () => {
 
   it('throws PrerequisiteNotFoundError for non-existent prerequisite', async () => {
     const store = makeMockStore({
-      load: vi.fn().mockResolvedValue({ events: [], version: 0n }),
+      exists: vi.fn().mockResolvedValue(false),
     });
     await expect(createCourse(store, systemClock, { title: 'T', semester: 'F24', creditHours: 3, maxStudents: 10, prerequisites: ['nonexistent-id'], dropDeadline: '2024-09-15', withdrawalDeadline: '2024-10-15' }))
       .rejects.toThrow(PrerequisiteNotFoundError);
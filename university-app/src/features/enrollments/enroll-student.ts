@@ -137,17 +137,18 @@ export async function enrollStudent(
   clock: Clock,
   input: EnrollStudentInput,
 ): Promise<void> {
-  const [
-    { events: studentEvents },
-    { events: courseEvents },
-    { events: enrollmentEvents },
-    { events: courseEnrollEvents, version: courseEnrollVersion },
-  ] = await Promise.all([
-    store.load(studentStream(input.studentId)),
-    store.load(courseStream(input.courseId)),
-    store.load(enrollmentStream(input.studentId, input.courseId)),
-    store.load(courseEnrollmentStream(input.courseId)),
-  ]);
+  // One snapshot: every check and the versions it appends against agree
+  const {
+    student: { events: studentEvents, version: studentVersion },
+    course: { events: courseEvents, version: courseVersion },
+    enrollment: { events: enrollmentEvents, version: enrollmentVersion },
+    courseEnrollments: { events: courseEnrollEvents, version: courseEnrollVersion },
+  } = await store.loadMany({
+    student: studentStream(input.studentId),
+    course: courseStream(input.courseId),
+    enrollment: enrollmentStream(input.studentId, input.courseId),
+    courseEnrollments: courseEnrollmentStream(input.courseId),
+  });
 
   const studentState = reduceStudentForEnroll(studentEvents);
   if (!studentState.registered) {
@@ -194,10 +195,12 @@ export async function enrollStudent(
 
   await store.append(
     [{ type: 'StudentEnrolled', payload: payload as unknown as Record<string, unknown> } as NewEvent],
-    {
-      query: enrollmentStream(input.studentId, input.courseId),
-      concurrencyQuery: courseEnrollmentStream(input.courseId),
-      expectedVersion: courseEnrollVersion,
-    },
+    // Every context the decision read must be unchanged, e.g. the course not cancelled meanwhile
+    [
+      { query: studentStream(input.studentId), expectedVersion: studentVersion },
+      { query: courseStream(input.courseId), expectedVersion: courseVersion },
+      { query: enrollmentStream(input.studentId, input.courseId), expectedVersion: enrollmentVersion },
+      { query: courseEnrollmentStream(input.courseId), expectedVersion: courseEnrollVersion },
+    ],
   );
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { StoredEvent, EventStore } from 'es-dcb-library';
+import type { StoredEvent, EventStore, AppendOptions } from 'es-dcb-library';
 import {
   reduceStudentForEnroll,
   reduceCourseForEnroll,
@@ -42,6 +42,7 @@ function makeEvent(type: string, payload: Record<string, unknown>): StoredEvent
     type,
     payload,
     metadata: null,
+    tags: [],
     occurredAt: new Date(),
   };
 }
@@ -49,6 +50,13 @@ function makeEvent(type: string, payload: Record<string, unknown>): StoredEvent
 function makeMockStore(overrides: Partial<EventStore> = {}): EventStore {
   return {
     load: vi.fn().mockResolvedValue({ events: [], version: 0n }),
+    loadLast: vi.fn().mockResolvedValue({ events: [], version: 0n }),
+    loadMany: vi.fn().mockImplementation((queries: object) => Promise.resolve(
+      Object.fromEntries(Object.keys(queries).map((key) => [key, { events: [], version: 0n }])),
+    )),
+    exists: vi.fn().mockResolvedValue(false),
+    count: vi.fn().mockResolvedValue(0),
+    headPosition: vi.fn().mockResolvedValue(0n),
     append: vi.fn().mockResolvedValue([]),
     stream: vi.fn().mockReturnValue((async function* () {})()),
     initializeSchema: vi.fn().mockResolvedValue(undefined),
@@ -335,11 +343,12 @@ describe('enrollStudent command', () => {
 
   it('appends StudentEnrolled on success', async () => {
     const store = makeMockStore({
-      load: vi.fn()
-        .mockResolvedValueOnce({ events: registeredStudentEvents, version: 1n })
-        .mockResolvedValueOnce({ events: openCourseEvents, version: 2n })
-        .mockResolvedValueOnce({ events: [], version: 0n })
-        .mockResolvedValueOnce({ events: [], version: 0n }),
+      loadMany: vi.fn().mockResolvedValue({
+        student: { events: registeredStudentEvents, version: 1n },
+        course: { events: openCourseEvents, version: 2n },
+        enrollment: { events: [], version: 0n },
+        courseEnrollments: { events: [], version: 0n },
+      }),
     });
     await enrollStudent(store, systemClock, { studentId: 's1', courseId: 'c1' });
     expect(store.append).toHaveBeenCalledOnce();
@@ -347,13 +356,30 @@ describe('enrollStudent command', () => {
     expect(appendCall[0]?.[0]?.type).toBe('StudentEnrolled');
   });
 
+  it('appends against the version of every loaded context', async () => {
+    const store = makeMockStore({
+      loadMany: vi.fn().mockResolvedValue({
+        student: { events: registeredStudentEvents, version: 1n },
+        course: { events: openCourseEvents, version: 2n },
+        enrollment: { events: [], version: 0n },
+        courseEnrollments: { events: [], version: 0n },
+      }),
+    });
+    await enrollStudent(store, systemClock, { studentId: 's1', courseId: 'c1' });
+    const condition = vi.mocked(store.append).mock.calls[0]?.[1];
+    expect(Array.isArray(condition)).toBe(true);
+    const conditions = condition as ReadonlyArray<AppendOptions>;
+    expect(conditions.map((c) => c.expectedVersion)).toEqual([1n, 2n, 0n, 0n]);
+  });
+
   it('throws StudentNotFoundError when student not registered', async () => {
     const store = makeMockStore({
-      load: vi.fn()
-        .mockResolvedValueOnce({ events: [], version: 0n })
-        .mockResolvedValueOnce({ events: openCourseEvents, version: 2n })
-        .mockResolvedValueOnce({ events: [], version: 0n })
-        .mockResolvedValueOnce({ events: [], version: 0n }),
+      loadMany: vi.fn().mockResolvedValue({
+        student: { events: [], version: 0n },
+        course: { events: openCourseEvents, version: 2n },
+        enrollment: { events: [], version: 0n },
+        courseEnrollments: { events: [], version: 0n },
+      }),
     });
     await expect(enrollStudent(store, systemClock, { studentId: 's1', courseId: 'c1' }))
       .rejects.toThrow(StudentNotFoundError);
@@ -361,11 +387,12 @@ describe('enrollStudent command', () => {
 
   it('throws CourseNotFoundError when course does not exist', async () => {
     const store = makeMockStore({
-      load: vi.fn()
-        .mockResolvedValueOnce({ events: registeredStudentEvents, version: 1n })
-        .mockResolvedValueOnce({ events: [], version: 0n })
-        .mockResolvedValueOnce({ events: [], version: 0n })
-        .mockResolvedValueOnce({ events: [], version: 0n }),
+      loadMany: vi.fn().mockResolvedValue({
+        student: { events: registeredStudentEvents, version: 1n },
+        course: { events: [], version: 0n },
+        enrollment: { events: [], version: 0n },
+        courseEnrollments: { events: [], version: 0n },
+      }),
     });
     await expect(enrollStudent(store, systemClock, { studentId: 's1', courseId: 'nonexistent' }))
       .rejects.toThrow(CourseNotFoundError);
@@ -374,11 +401,12 @@ describe('enrollStudent command', () => {
   it('throws CourseNotOpenError when course is not open', async () => {
     const draftCourse = [makeEvent('CourseCreated', { courseId: 'c1', title: 'Intro', semester: 'F24', creditHours: 3, maxStudents: 30, prerequisites: [], passingGrade: 60, dropDeadline: '2030-09-15', withdrawalDeadline: '2030-10-15' })];
     const store = makeMockStore({
-      load: vi.fn()
-        .mockResolvedValueOnce({ events: registeredStudentEvents, version: 1n })
-        .mockResolvedValueOnce({ events: draftCourse, version: 1n })
-        .mockResolvedValueOnce({ events: [], version: 0n })
-        .mockResolvedValueOnce({ events: [], version: 0n }),
+      loadMany: vi.fn().mockResolvedValue({
+        student: { events: registeredStudentEvents, version: 1n },
+        course: { events: draftCourse, version: 1n },
+        enrollment: { events: [], version: 0n },
+        courseEnrollments: { events: [], version: 0n },
+      }),
     });
     await expect(enrollStudent(store, systemClock, { studentId: 's1', courseId: 'c1' }))
       .rejects.toThrow(CourseNotOpenError);
@@ -387,11 +415,12 @@ describe('enrollStudent command', () => {
   it('throws StudentAlreadyEnrolledError when already enrolled', async () => {
     const enrolledEvents = [makeEvent('StudentEnrolled', { studentId: 's1', courseId: 'c1', enrolledAt: '2024-01-01T00:00:00Z' })];
     const store = makeMockStore({
-      load: vi.fn()
-        .mockResolvedValueOnce({ events: registeredStudentEvents, version: 1n })
-        .mockResolvedValueOnce({ events: openCourseEvents, version: 2n })
-        .mockResolvedValueOnce({ events: enrolledEvents, version: 1n })
-        .mockResolvedValueOnce({ events: enrolledEvents, version: 1n }),
+      loadMany: vi.fn().mockResolvedValue({
+        student: { events: registeredStudentEvents, version: 1n },
+        course: { events: openCourseEvents, version: 2n },
+        enrollment: { events: enrolledEvents, version: 1n },
+        courseEnrollments: { events: enrolledEvents, version: 1n },
+      }),
     });
     await expect(enrollStudent(store, systemClock, { studentId: 's1', courseId: 'c1' }))
       .rejects.toThrow(StudentAlreadyEnrolledError);
@@ -404,11 +433,12 @@ describe('enrollStudent command', () => {
     ];
     const existingEnrollment = [makeEvent('StudentEnrolled', { studentId: 's2', courseId: 'c1', enrolledAt: '2024-01-01T00:00:00Z' })];
     const store = makeMockStore({
-      load: vi.fn()
-        .mockResolvedValueOnce({ events: registeredStudentEvents, version: 1n })
-        .mockResolvedValueOnce({ events: fullCourseEvents, version: 2n })
-        .mockResolvedValueOnce({ events: [], version: 0n })
-        .mockResolvedValueOnce({ events: existingEnrollment, version: 1n }),
+      loadMany: vi.fn().mockResolvedValue({
+        student: { events: registeredStudentEvents, version: 1n },
+        course: { events: fullCourseEvents, version: 2n },
+        enrollment: { events: [], version: 0n },
+        courseEnrollments: { events: existingEnrollment, version: 1n },
+      }),
     });
     await expect(enrollStudent(store, systemClock, { studentId: 's1', courseId: 'c1' }))
       .rejects.toThrow(EnrollmentFullError);
@@ -420,11 +450,12 @@ describe('enrollStudent command', () => {
       makeEvent('CoursePublished', { courseId: 'c1', teacherId: 't1', maxStudents: 30, creditHours: 3, prerequisites: ['prereq-course'], passingGrade: 60 }),
     ];
     const store = makeMockStore({
-      load: vi.fn()
-        .mockResolvedValueOnce({ events: registeredStudentEvents, version: 1n })
-        .mockResolvedValueOnce({ events: prereqCourse, version: 2n })
-        .mockResolvedValueOnce({ events: [], version: 0n })
-        .mockResolvedValueOnce({ events: [], version: 0n }),
+      loadMany: vi.fn().mockResolvedValue({
+        student: { events: registeredStudentEvents, version: 1n },
+        course: { events: prereqCourse, version: 2n },
+        enrollment: { events: [], version: 0n },
+        courseEnrollments: { events: [], version: 0n },
+      }),
     });
     await expect(enrollStudent(store, systemClock, { studentId: 's1', courseId: 'c1' }))
       .rejects.toThrow(PrerequisiteNotSatisfiedError);
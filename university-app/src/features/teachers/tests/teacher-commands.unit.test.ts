@@ -25,6 +25,7 @@ function makeEvent(type: string, payload: Record<string, unknown>): StoredEvent
     type,
     payload,
     metadata: null,
+    tags: [],
     occurredAt: new Date(),
   };
 }
@@ -32,6 +33,13 @@ function makeEvent(type: string, payload: Record<string, unknown>): StoredEvent
 function makeMockStore(overrides: Partial<EventStore> = {}): EventStore {
   return {
     load: vi.fn().mockResolvedValue({ events: [], version: 0n }),
+    loadLast: vi.fn().mockResolvedValue({ events: [], version: 0n }),
+    loadMany: vi.fn().mockImplementation((queries: object) => Promise.resolve(
+      Object.fromEntries(Object.keys(queries).map((key) => [key, { events: [], version: 0n }])),
+    )),
+    exists: vi.fn().mockResolvedValue(false),
+    count: vi.fn().mockResolvedValue(0),
+    headPosition: vi.fn().mockResolvedValue(0n),
     append: vi.fn().mockResolvedValue([]),
     stream: vi.fn().mockReturnValue((async function* () {})()),
     initializeSchema: vi.fn().mockResolvedValue(undefined),
@@ -14,6 +14,9 @@ export default defineConfig({
         test: {
           name: 'integration',
           include: ['tests/integration/**/*.test.ts'],
+          benchmark: {
+            include: ['tests/integration/**/*.bench.ts'],
+          },
           testTimeout: 30000,
           globalSetup: ['tests/integration/setup.ts'],
           pool: 'forks',